@@ -0,0 +1,20 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+
+// Shown when getDocument throws, e.g. for a file of another user
+export default function DocumentViewerError({ error }: { error: Error }) {
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50 to-blue-50 p-4 md:p-8">
+            <Card className="max-w-4xl mx-auto shadow-lg">
+                <CardContent className="pt-6 space-y-2">
+                    <p className="text-red-600">{error.message.includes("File not found") ? "File not found" : "Could not load the document"}</p>
+                    <Link href="/rag" className="text-sm text-purple-700 hover:underline">
+                        Back to chat
+                    </Link>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
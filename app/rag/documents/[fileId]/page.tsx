@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useQuery } from "convex/react";
+import { ArrowLeft, FileText } from "lucide-react";
+import { Checkbox, CircularProgress, FormControlLabel, Tooltip } from "@mui/material";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Element ID of a chunk, linked to as /rag/documents/<fileId>#chunk-<chunkIndex>
+const chunkAnchor = (chunkIndex: number) => `chunk-${chunkIndex}`;
+
+// Chunk index named by the URL hash, if any
+const linkedChunk = (): number | null => {
+    const match = window.location.hash.match(/^#chunk-(\d+)$/);
+    return match ? Number(match[1]) : null;
+};
+
+export default function DocumentViewerPage() {
+    const { fileId } = useParams<{ fileId: string }>();
+    const rebuilt = useQuery(api.documents.getDocument, { fileId: fileId as Id<"files"> });
+    const [showBoundaries, setShowBoundaries] = useState(true);
+    const [highlighted, setHighlighted] = useState<number | null>(null);
+
+    const loaded = Boolean(rebuilt);
+
+    // Jump to the chunk named by the hash once the text is there, and again
+    // whenever the hash changes
+    useEffect(() => {
+        if (!loaded) return;
+        const jump = () => {
+            const chunkIndex = linkedChunk();
+            setHighlighted(chunkIndex);
+            if (chunkIndex !== null) {
+                document.getElementById(chunkAnchor(chunkIndex))?.scrollIntoView({ block: "center" });
+            }
+        };
+        jump();
+        window.addEventListener("hashchange", jump);
+        return () => window.removeEventListener("hashchange", jump);
+    }, [loaded]);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50 to-blue-50 p-4 md:p-8">
+            <div className="max-w-4xl mx-auto space-y-6">
+                <Link href="/rag" className="inline-flex items-center gap-2 text-sm text-purple-700 hover:underline">
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to chat
+                </Link>
+
+                {rebuilt === undefined && (
+                    <div className="flex justify-center py-16">
+                        <CircularProgress />
+                    </div>
+                )}
+
+                {rebuilt === null && (
+                    <Card className="shadow-lg">
+                        <CardContent className="pt-6 text-gray-500">
+                            This file has no ingested version to show yet.
+                        </CardContent>
+                    </Card>
+                )}
+
+                {rebuilt && (
+                    <Card className="shadow-lg">
+                        <CardHeader className="border-b">
+                            <div className="flex items-center justify-between gap-4">
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <FileText className="w-6 h-6 text-purple-600 shrink-0" />
+                                    <div className="min-w-0">
+                                        <CardTitle className="truncate">{rebuilt.fileName}</CardTitle>
+                                        <CardDescription>
+                                            v{rebuilt.version} • {rebuilt.chunks.length} chunks, rebuilt without their overlaps
+                                        </CardDescription>
+                                    </div>
+                                </div>
+                                <FormControlLabel
+                                    control={
+                                        <Checkbox
+                                            size="small"
+                                            checked={showBoundaries}
+                                            onChange={(e) => setShowBoundaries(e.target.checked)}
+                                        />
+                                    }
+                                    label={<span className="text-sm whitespace-nowrap">Chunk boundaries</span>}
+                                />
+                            </div>
+                        </CardHeader>
+                        <CardContent className="pt-6">
+                            <div className="text-sm leading-relaxed text-gray-900 whitespace-pre-wrap">
+                                {rebuilt.chunks.map((chunk, i) => {
+                                    const previous = rebuilt.chunks[i - 1];
+                                    const newSection = chunk.section !== undefined && chunk.section !== previous?.section;
+                                    // Chunks that don't continue the one before start a new paragraph
+                                    const newParagraph = i > 0 && chunk.overlap === 0;
+                                    return (
+                                        <React.Fragment key={chunk._id}>
+                                            {newSection ? (
+                                                <span className="block mt-6 mb-2 font-semibold text-purple-800">
+                                                    {chunk.section}
+                                                </span>
+                                            ) : (
+                                                newParagraph && "\n\n"
+                                            )}
+                                            {showBoundaries && (
+                                                <Tooltip
+                                                    title={
+                                                        chunk.overlap > 0
+                                                            ? `Repeats the last ${chunk.overlap} characters of chunk ${chunk.chunkIndex - 1}, not shown again`
+                                                            : "Starts without overlap"
+                                                    }
+                                                >
+                                                    <span className="inline-block align-middle mx-1 px-1.5 rounded bg-purple-100 text-purple-700 text-xs font-mono">
+                                                        #{chunk.chunkIndex}
+                                                        {chunk.pages && ` ${chunk.pages}`}
+                                                        {chunk.timestamp && ` ${chunk.timestamp}`}
+                                                    </span>
+                                                </Tooltip>
+                                            )}
+                                            <span
+                                                id={chunkAnchor(chunk.chunkIndex)}
+                                                className={`scroll-mt-24 ${
+                                                    highlighted === chunk.chunkIndex
+                                                        ? "bg-yellow-100 ring-2 ring-yellow-300 rounded"
+                                                        : showBoundaries && i % 2 === 1
+                                                            ? "bg-blue-50"
+                                                            : ""
+                                                }`}
+                                            >
+                                                {chunk.text}
+                                            </span>
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </div>
+    );
+}
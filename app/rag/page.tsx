@@ -1,8 +1,12 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { useAction } from "convex/react";
+import Link from "next/link";
+import { useAction, useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import type { FileSort } from "@/convex/files";
+import { detectFormat, SUPPORTED_EXTENSIONS } from "@/convex/formatTypes";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,28 +15,41 @@ import {
     CloudUpload, 
     Send, 
     FileText, 
-    Trash2, 
     MessageSquare, 
     Sparkles,
     Bot,
     User,
     Loader2,
-    BookOpen
+    BookOpen,
+    ListChecks,
+    ExternalLink
 } from "lucide-react";
 import { Avatar, Chip, CircularProgress, IconButton, Tooltip } from "@mui/material";
 import MultiChoiceQuestion from "@/components/MultiChoiceQuestion";
+import FileStatusItem from "@/components/FileStatusItem";
+import CollectionSwitcher from "@/components/CollectionSwitcher";
+import FilePicker from "@/components/FilePicker";
+
+const isSupportedFile = (file: File) => detectFormat(file.name, file.type) !== null;
+
+interface Source {
+    /** Opens the document viewer at `chunkIndex` */
+    fileId?: Id<"files">;
+    fileName: string;
+    chunkIndex: number;
+    section?: string;
+    pages?: string;
+    /** Position in the recording, for transcripts */
+    timestamp?: string;
+    /** Original file, opened at the cited page for PDFs */
+    url?: string;
+}
 
 interface Message {
     role: "user" | "assistant";
     content: string;
     timestamp: Date;
-}
-
-interface UploadedFile {
-    name: string;
-    size: number;
-    type: string;
-    content: string;
+    sources?: Source[];
 }
 
 interface Question {
@@ -46,15 +63,26 @@ interface Question {
     correctAnswer: string;
     explanation: string;
     subtopic?: string;
+    /** Chunk the question was generated from */
+    citation?: {
+        fileId: Id<"files">;
+        chunkIndex: number;
+        label: string;
+    };
 }
 
 export default function RAGPage() {
-    const [files, setFiles] = useState<UploadedFile[]>([]);
     const [messages, setMessages] = useState<Message[]>([]);
     const [input, setInput] = useState("");
     const [isLoading, setIsLoading] = useState(false);
-    const [isEmbedding, setIsEmbedding] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
+    // Collection that uploads, the document list, chat and quizzes are scoped to
+    const [collectionId, setCollectionId] = useState<Id<"collections"> | null>(null);
+    // Files checked in the picker; none checked searches every file
+    const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+    const [fileSearch, setFileSearch] = useState("");
+    const [fileSort, setFileSort] = useState<FileSort>("uploadedAt");
     const fileInputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     
@@ -67,7 +95,48 @@ export default function RAGPage() {
     const [showResults, setShowResults] = useState(false);
     const [quizError, setQuizError] = useState("");
 
-    const embedDocument = useAction(api.ragActions.embedDocument);
+    const generateUploadUrl = useMutation(api.ingestion.generateUploadUrl);
+    const startIngestion = useMutation(api.ingestion.startIngestion);
+    const retryJob = useMutation(api.ingestion.retryJob);
+    const removeJob = useMutation(api.ingestion.removeJob);
+    const deleteByFileName = useMutation(api.documents.deleteByFileName);
+    const rollbackToVersion = useMutation(api.ingestion.rollbackToVersion);
+    const assignFile = useMutation(api.collections.assignFile);
+
+    // File list comes from Convex a page at a time so it survives refreshes and
+    // covers the whole library; each row shows its latest job's live progress
+    const {
+        results: documentFiles,
+        status: documentsStatus,
+        loadMore: loadMoreDocuments,
+    } = usePaginatedQuery(
+        api.files.listFiles,
+        { collectionId: collectionId ?? undefined },
+        { initialNumItems: 20 }
+    );
+    const latestJobs = useQuery(
+        api.ingestion.latestJobs,
+        documentFiles.length > 0 ? { fileIds: documentFiles.map((file) => file._id) } : "skip"
+    );
+    const jobsByFile = new Map((latestJobs ?? []).map((job) => [job.fileId, job]));
+    const collections = useQuery(api.collections.list) ?? [];
+    // Searchable files come from the server a page at a time, so the picker
+    // survives refreshes and scales to large libraries
+    const {
+        results: listedFiles,
+        status: filesStatus,
+        loadMore,
+    } = usePaginatedQuery(
+        api.files.listFiles,
+        {
+            sortBy: fileSort,
+            order: fileSort === "name" ? "asc" : "desc",
+            search: fileSearch.trim() || undefined,
+            collectionId: collectionId ?? undefined,
+        },
+        { initialNumItems: 20 }
+    );
+    const hasDocuments = filesStatus === "LoadingFirstPage" || listedFiles.length > 0 || fileSearch.trim() !== "";
     const ragChat = useAction(api.ragActions.ragChat);
     const generateQuiz = useAction(api.fileQuestionGenerator.runDocumentRetrieval);
 
@@ -79,97 +148,67 @@ export default function RAGPage() {
         scrollToBottom();
     }, [messages]);
 
-    const extractTextFromPDF = async (file: File): Promise<string> => {
-        try {
-            const pdfjsLib = await import('pdfjs-dist');
-            
-            // Use jsdelivr CDN which has better CORS support and reliability
-            pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
-            
-            const arrayBuffer = await file.arrayBuffer();
-            const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-            
-            let fullText = '';
-            
-            for (let i = 1; i <= pdf.numPages; i++) {
-                const page = await pdf.getPage(i);
-                const textContent = await page.getTextContent();
-                const pageText = textContent.items
-                    .map((item: any) => item.str)
-                    .join(' ');
-                fullText += pageText + '\n\n';
-            }
-            
-            return fullText;
-        } catch (error) {
-            console.error("Error extracting PDF text:", error);
-            throw new Error("Failed to extract text from PDF");
-        }
-    };
-
     const handleFileUpload = async (uploadedFiles: FileList | null) => {
         if (!uploadedFiles) return;
 
-        setIsEmbedding(true);
+        setIsUploading(true);
         
         for (let i = 0; i < uploadedFiles.length; i++) {
             const file = uploadedFiles[i];
             
-            const isTextFile = file.type.startsWith("text/") || file.name.endsWith(".txt") || file.name.endsWith(".md");
-            const isPDF = file.type === "application/pdf" || file.name.endsWith(".pdf");
+            if (!isSupportedFile(file)) {
+                const rejectedMessage: Message = {
+                    role: "assistant",
+                    content: `🚫 "${file.name}" was not uploaded: this file type is not supported. Supported types are ${SUPPORTED_EXTENSIONS.join(", ")}.`,
+                    timestamp: new Date()
+                };
+                setMessages(prev => [...prev, rejectedMessage]);
+                continue;
+            }
             
-            if (isTextFile || isPDF) {
-                try {
-                    let content: string;
-                    
-                    if (isPDF) {
-                        content = await extractTextFromPDF(file);
-                    } else {
-                        content = await file.text();
-                    }
-                    
-                    const newFile: UploadedFile = {
-                        name: file.name,
-                        size: file.size,
-                        type: file.type,
-                        content: content
-                    };
-                    
-                    setFiles(prev => [...prev, newFile]);
-                    
-                    const result = await embedDocument({
-                        fileName: file.name,
-                        content: content,
-                    });
-                    
-                    if (result.success) {
-                        const systemMessage: Message = {
-                            role: "assistant",
-                            content: `✅ Successfully embedded "${file.name}" (${result.chunksCreated} chunks created). You can now ask questions about this document!`,
-                            timestamp: new Date()
-                        };
-                        setMessages(prev => [...prev, systemMessage]);
-                    } else {
-                        const errorMessage: Message = {
-                            role: "assistant",
-                            content: `❌ Failed to embed "${file.name}": ${result.error}`,
-                            timestamp: new Date()
-                        };
-                        setMessages(prev => [...prev, errorMessage]);
-                    }
-                } catch (error) {
-                    console.error("Error processing file:", error);
-                    const errorMessage: Message = {
-                        role: "assistant",
-                        content: `❌ Error processing "${file.name}": ${error instanceof Error ? error.message : "Unknown error"}`,
-                        timestamp: new Date()
-                    };
-                    setMessages(prev => [...prev, errorMessage]);
+            try {
+                // Upload the raw file; extraction and embedding run on the server
+                const uploadUrl = await generateUploadUrl();
+                const response = await fetch(uploadUrl, {
+                    method: "POST",
+                    headers: { "Content-Type": file.type || "application/octet-stream" },
+                    body: file,
+                });
+                if (!response.ok) {
+                    throw new Error(`Upload failed with status ${response.status}`);
                 }
+                const { storageId } = await response.json();
+                
+                const { skipped, version } = await startIngestion({
+                    storageId,
+                    fileName: file.name,
+                    contentType: file.type,
+                    size: file.size,
+                    collectionId: collectionId ?? undefined,
+                });
+                
+                const systemMessage: Message = {
+                    role: "assistant",
+                    content: skipped
+                        ? `⏭️ "${file.name}" is unchanged since version ${version}, nothing to update.`
+                        : version > 1
+                            ? `📥 Uploaded version ${version} of "${file.name}". It replaces the current version once processing on the server has finished.`
+                            : `📥 Uploaded "${file.name}". It is being processed on the server and you can close this page in the meantime.`,
+                    timestamp: new Date()
+                };
+                setMessages(prev => [...prev, systemMessage]);
+            } catch (error) {
+                console.error("Error processing file:", error);
+                const errorMessage: Message = {
+                    role: "assistant",
+                    content: `❌ Error processing "${file.name}": ${error instanceof Error ? error.message : "Unknown error"}`,
+                    timestamp: new Date()
+                };
+                setMessages(prev => [...prev, errorMessage]);
             }
         }
         
-        setIsEmbedding(false);
+        setIsUploading(false);
     };
 
     const handleDragOver = (e: React.DragEvent) => {
@@ -188,8 +227,51 @@ export default function RAGPage() {
         handleFileUpload(e.dataTransfer.files);
     };
 
-    const removeFile = (index: number) => {
-        setFiles(prev => prev.filter((_, i) => i !== index));
+    const handleRetry = async (job: Doc<"ingestionJobs">) => {
+        try {
+            await retryJob({ jobId: job._id });
+        } catch (error) {
+            console.error("Error retrying ingestion:", error);
+        }
+    };
+
+    const handleRemoveFile = async (file: Doc<"files">, job?: Doc<"ingestionJobs">) => {
+        try {
+            if (job) {
+                await removeJob({ jobId: job._id });
+            } else {
+                await deleteByFileName({ fileName: file.fileName });
+            }
+            // Unless only a failed upload was thrown away, the whole file is
+            // deleted, so it can no longer be searched
+            if (job?.status !== "failed") {
+                setSelectedFiles(prev => prev.filter(name => name !== file.fileName));
+            }
+        } catch (error) {
+            console.error("Error removing file:", error);
+        }
+    };
+
+    const handleRollback = async (file: Doc<"files">, version: number) => {
+        try {
+            await rollbackToVersion({ fileId: file._id, version });
+        } catch (error) {
+            console.error("Error restoring version:", error);
+            const errorMessage: Message = {
+                role: "assistant",
+                content: `❌ Could not restore version ${version} of "${file.fileName}": ${error instanceof Error ? error.message : "Unknown error"}`,
+                timestamp: new Date()
+            };
+            setMessages(prev => [...prev, errorMessage]);
+        }
+    };
+
+    const handleMove = async (file: Doc<"files">, target: Id<"collections"> | null) => {
+        try {
+            await assignFile({ fileId: file._id, collectionId: target });
+        } catch (error) {
+            console.error("Error moving file:", error);
+        }
     };
 
     const handleSendMessage = async () => {
@@ -209,13 +291,15 @@ export default function RAGPage() {
         try {
             const result = await ragChat({
                 query: query,
-                fileName: files.length > 0 ? files[0].name : undefined,
+                fileNames: selectedFiles.length > 0 ? selectedFiles : undefined,
+                collectionId: collectionId ?? undefined,
             });
 
             const assistantMessage: Message = {
                 role: "assistant",
                 content: result.answer || "I'm sorry, I couldn't process that request.",
-                timestamp: new Date()
+                timestamp: new Date(),
+                sources: result.sources
             };
 
             setMessages(prev => [...prev, assistantMessage]);
@@ -232,12 +316,6 @@ export default function RAGPage() {
         }
     };
 
-    const formatFileSize = (bytes: number) => {
-        if (bytes < 1024) return bytes + " B";
-        if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
-        return (bytes / (1024 * 1024)).toFixed(1) + " MB";
-    };
-
     const handleGenerateQuiz = async () => {
         if (!quizQuery.trim()) {
             setQuizError("Please enter a query");
@@ -251,7 +329,11 @@ export default function RAGPage() {
         setShowResults(false);
 
         try {
-            const result = await generateQuiz({ query: quizQuery.trim() });
+            const result = await generateQuiz({
+                query: quizQuery.trim(),
+                fileNames: selectedFiles.length > 0 ? selectedFiles : undefined,
+                collectionId: collectionId ?? undefined,
+            });
             if (result.success && result.questions) {
                 setQuestions(result.questions);
                 setShowQuiz(true);
@@ -312,6 +394,45 @@ export default function RAGPage() {
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     {/* File Upload Section */}
                     <div className="lg:col-span-1 space-y-4">
+                        {/* Collection Switcher */}
+                        <Card className="shadow-lg">
+                            <CardContent className="pt-6">
+                                <CollectionSwitcher
+                                    value={collectionId}
+                                    onChange={(id) => {
+                                        setCollectionId(id);
+                                        setSelectedFiles([]);
+                                    }}
+                                />
+                            </CardContent>
+                        </Card>
+
+                        {/* File Picker */}
+                        <Card className="shadow-lg">
+                            <CardHeader>
+                                <div className="flex items-center gap-2">
+                                    <ListChecks className="w-5 h-5 text-purple-600" />
+                                    <CardTitle>Search In</CardTitle>
+                                </div>
+                                <CardDescription>
+                                    Pick the documents chat and quizzes use
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <FilePicker
+                                    files={listedFiles}
+                                    selected={selectedFiles}
+                                    onChange={setSelectedFiles}
+                                    search={fileSearch}
+                                    onSearchChange={setFileSearch}
+                                    sortBy={fileSort}
+                                    onSortChange={setFileSort}
+                                    canLoadMore={filesStatus === "CanLoadMore"}
+                                    onLoadMore={() => loadMore(20)}
+                                />
+                            </CardContent>
+                        </Card>
+
                         {/* Quiz Generator Card */}
                         <Card className="shadow-lg">
                             <CardHeader>
@@ -330,12 +451,12 @@ export default function RAGPage() {
                                     onChange={(e) => setQuizQuery(e.target.value)}
                                     onKeyPress={(e) => e.key === "Enter" && !isGeneratingQuiz && handleGenerateQuiz()}
                                     placeholder="Enter a topic or query..."
-                                    disabled={isGeneratingQuiz || files.length === 0}
+                                    disabled={isGeneratingQuiz || !hasDocuments}
                                     className="w-full"
                                 />
                                 <Button
                                     onClick={handleGenerateQuiz}
-                                    disabled={isGeneratingQuiz || !quizQuery.trim() || files.length === 0}
+                                    disabled={isGeneratingQuiz || !quizQuery.trim() || !hasDocuments}
                                     className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
                                 >
                                     {isGeneratingQuiz ? (
@@ -353,7 +474,7 @@ export default function RAGPage() {
                                 {quizError && (
                                     <p className="text-sm text-red-600">{quizError}</p>
                                 )}
-                                {files.length === 0 && (
+                                {!hasDocuments && (
                                     <p className="text-sm text-gray-500">Upload documents first to generate quizzes</p>
                                 )}
                             </CardContent>
@@ -366,9 +487,9 @@ export default function RAGPage() {
                                         <FileText className="w-5 h-5 text-purple-600" />
                                         <CardTitle>Documents</CardTitle>
                                     </div>
-                                    {files.length > 0 && (
+                                    {documentFiles.length > 0 && (
                                         <Badge variant="secondary" className="bg-purple-100 text-purple-700">
-                                            {files.length} files
+                                            {documentFiles.length}{documentsStatus === "CanLoadMore" ? "+" : ""} files
                                         </Badge>
                                     )}
                                 </div>
@@ -381,9 +502,9 @@ export default function RAGPage() {
                                     onDragOver={handleDragOver}
                                     onDragLeave={handleDragLeave}
                                     onDrop={handleDrop}
-                                    onClick={() => !isEmbedding && fileInputRef.current?.click()}
+                                    onClick={() => !isUploading && fileInputRef.current?.click()}
                                     className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 ${
-                                        isEmbedding
+                                        isUploading
                                             ? "border-blue-500 bg-blue-50 cursor-wait"
                                             : isDragging
                                             ? "border-purple-500 bg-purple-50 scale-105 cursor-pointer"
@@ -392,7 +513,7 @@ export default function RAGPage() {
                                 >
                                     <div className="flex flex-col items-center gap-3">
                                         <div className="w-16 h-16 rounded-full bg-gradient-to-br from-purple-100 to-blue-100 flex items-center justify-center">
-                                            {isEmbedding ? (
+                                            {isUploading ? (
                                                 <CircularProgress size={32} />
                                             ) : (
                                                 <CloudUpload className="w-8 h-8 text-purple-600" />
@@ -400,17 +521,17 @@ export default function RAGPage() {
                                         </div>
                                         <div>
                                             <p className="font-semibold text-gray-900 mb-1">
-                                                {isEmbedding ? "Embedding documents..." : "Drop files here"}
+                                                {isUploading ? "Uploading documents..." : "Drop files here"}
                                             </p>
                                             <p className="text-sm text-gray-500">
-                                                {isEmbedding ? "Please wait" : "or click to browse"}
+                                                {isUploading ? "Please wait" : "or click to browse"}
                                             </p>
                                         </div>
-                                        {!isEmbedding && (
-                                            <div className="flex gap-2">
-                                                <Chip label=".txt" size="small" variant="outlined" />
-                                                <Chip label=".md" size="small" variant="outlined" />
-                                                <Chip label=".pdf" size="small" variant="outlined" />
+                                        {!isUploading && (
+                                            <div className="flex flex-wrap justify-center gap-2">
+                                                {SUPPORTED_EXTENSIONS.map((extension) => (
+                                                    <Chip key={extension} label={extension} size="small" variant="outlined" />
+                                                ))}
                                             </div>
                                         )}
                                     </div>
@@ -420,40 +541,31 @@ export default function RAGPage() {
                                     ref={fileInputRef}
                                     type="file"
                                     multiple
-                                    accept=".txt,.md,.pdf,text/*,application/pdf"
+                                    accept={`${SUPPORTED_EXTENSIONS.join(",")},text/*`}
                                     onChange={(e) => handleFileUpload(e.target.files)}
                                     className="hidden"
                                 />
 
-                                {files.length > 0 && (
+                                {documentFiles.length > 0 && (
                                     <div className="space-y-2">
-                                        {files.map((file, index) => (
-                                            <div
-                                                key={index}
-                                                className="group flex items-center gap-3 p-3 bg-gradient-to-r from-purple-50 to-blue-50 rounded-lg border border-purple-200 hover:border-purple-300 transition-all"
-                                            >
-                                                <div className="w-10 h-10 rounded-lg bg-white flex items-center justify-center shadow-sm">
-                                                    <FileText className="w-5 h-5 text-purple-600" />
-                                                </div>
-                                                <div className="flex-1 min-w-0">
-                                                    <p className="text-sm font-semibold text-gray-900 truncate">
-                                                        {file.name}
-                                                    </p>
-                                                    <p className="text-xs text-gray-500">
-                                                        {formatFileSize(file.size)}
-                                                    </p>
-                                                </div>
-                                                <Tooltip title="Remove file">
-                                                    <IconButton
-                                                        size="small"
-                                                        onClick={() => removeFile(index)}
-                                                        className="opacity-0 group-hover:opacity-100 transition-opacity"
-                                                    >
-                                                        <Trash2 className="w-4 h-4 text-red-500" />
-                                                    </IconButton>
-                                                </Tooltip>
-                                            </div>
+                                        {documentFiles.map((file) => (
+                                            <FileStatusItem
+                                                key={file._id}
+                                                file={file}
+                                                job={jobsByFile.get(file._id)}
+                                                onRetry={handleRetry}
+                                                onRemove={handleRemoveFile}
+                                                onRollback={handleRollback}
+                                                collections={collections}
+                                                currentCollection={collectionId}
+                                                onMove={handleMove}
+                                            />
                                         ))}
+                                        {documentsStatus === "CanLoadMore" && (
+                                            <Button variant="outline" size="sm" className="w-full" onClick={() => loadMoreDocuments(20)}>
+                                                Load more
+                                            </Button>
+                                        )}
                                     </div>
                                 )}
                             </CardContent>
@@ -518,6 +630,36 @@ export default function RAGPage() {
                                             <p className="text-sm leading-relaxed whitespace-pre-wrap">
                                                 {message.content}
                                             </p>
+                                            {message.sources && message.sources.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mt-2">
+                                                    {message.sources.map((source, i) => (
+                                                        <span key={i} className="inline-flex items-center">
+                                                            <Chip
+                                                                size="small"
+                                                                variant="outlined"
+                                                                label={`[${i + 1}] ${source.fileName}${source.section ? ` › ${source.section}` : ""}${source.pages ? `, ${source.pages}` : ""}${source.timestamp ? `, at ${source.timestamp}` : ""}`}
+                                                                {...(source.fileId && {
+                                                                    component: Link,
+                                                                    href: `/rag/documents/${source.fileId}#chunk-${source.chunkIndex}`,
+                                                                    clickable: true,
+                                                                })}
+                                                            />
+                                                            {source.url && (
+                                                                <Tooltip title="Open original file">
+                                                                    <IconButton
+                                                                        size="small"
+                                                                        href={source.url}
+                                                                        target="_blank"
+                                                                        rel="noopener noreferrer"
+                                                                    >
+                                                                        <ExternalLink className="w-3 h-3 text-gray-500" />
+                                                                    </IconButton>
+                                                                </Tooltip>
+                                                            )}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
                                             <p
                                                 className={`text-xs mt-2 ${
                                                     message.role === "user"
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { FolderPlus, Library, Trash2 } from "lucide-react";
+import { IconButton, MenuItem, Select, Tooltip } from "@mui/material";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface CollectionSwitcherProps {
+    /** Selected collection, or null for all documents */
+    value: Id<"collections"> | null;
+    onChange: (collectionId: Id<"collections"> | null) => void;
+}
+
+// Value of the "All documents" option, since Select options need a string
+const ALL_DOCUMENTS = "all";
+
+export default function CollectionSwitcher({ value, onChange }: CollectionSwitcherProps) {
+    const collections = useQuery(api.collections.list) ?? [];
+    const createCollection = useMutation(api.collections.create);
+    const removeCollection = useMutation(api.collections.remove);
+    const [isCreating, setIsCreating] = useState(false);
+    const [name, setName] = useState("");
+    const [error, setError] = useState("");
+
+    const handleCreate = async () => {
+        if (!name.trim()) return;
+        try {
+            const collectionId = await createCollection({ name });
+            setName("");
+            setError("");
+            setIsCreating(false);
+            onChange(collectionId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not create the collection");
+        }
+    };
+
+    const handleRemove = async () => {
+        if (value === null) return;
+        const collection = collections.find((c) => c._id === value);
+        if (!window.confirm(`Delete the collection "${collection?.name}"? Its documents are kept.`)) return;
+        try {
+            await removeCollection({ collectionId: value });
+            onChange(null);
+        } catch (err) {
+            console.error("Error deleting collection:", err);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <Library className="w-5 h-5 text-purple-600 shrink-0" />
+                <Select
+                    size="small"
+                    className="flex-1 bg-white"
+                    value={value ?? ALL_DOCUMENTS}
+                    onChange={(e) =>
+                        onChange(e.target.value === ALL_DOCUMENTS ? null : (e.target.value as Id<"collections">))
+                    }
+                >
+                    <MenuItem value={ALL_DOCUMENTS}>All documents</MenuItem>
+                    {collections.map((collection) => (
+                        <MenuItem key={collection._id} value={collection._id}>
+                            {collection.name} ({collection.files})
+                        </MenuItem>
+                    ))}
+                </Select>
+                <Tooltip title="New collection">
+                    <IconButton size="small" onClick={() => setIsCreating(!isCreating)}>
+                        <FolderPlus className="w-4 h-4 text-purple-600" />
+                    </IconButton>
+                </Tooltip>
+                {value !== null && (
+                    <Tooltip title="Delete collection">
+                        <IconButton size="small" onClick={handleRemove}>
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                        </IconButton>
+                    </Tooltip>
+                )}
+            </div>
+            {isCreating && (
+                <div className="flex gap-2">
+                    <Input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                        placeholder="e.g. Onboarding"
+                        autoFocus
+                    />
+                    <Button onClick={handleCreate} disabled={!name.trim()}>
+                        Create
+                    </Button>
+                </div>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { Checkbox, Chip, FormControlLabel, MenuItem, Select } from "@mui/material";
+import { Doc } from "@/convex/_generated/dataModel";
+import type { FileSort } from "@/convex/files";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatFileSize } from "@/components/FileStatusItem";
+
+interface FilePickerProps {
+    /** Loaded pages of api.files.listFiles */
+    files: Doc<"files">[];
+    /** Checked file names; none checked means every file is searched */
+    selected: string[];
+    onChange: (selected: string[]) => void;
+    search: string;
+    onSearchChange: (search: string) => void;
+    sortBy: FileSort;
+    onSortChange: (sortBy: FileSort) => void;
+    /** Whether more pages can be loaded, see usePaginatedQuery */
+    canLoadMore: boolean;
+    onLoadMore: () => void;
+}
+
+const STATUS_LABELS: Record<NonNullable<Doc<"files">["status"]>, string> = {
+    processing: "Processing",
+    ready: "Ready",
+    failed: "Failed",
+    deleting: "Deleting",
+};
+
+const SORT_LABELS: Record<FileSort, string> = {
+    uploadedAt: "Newest",
+    name: "Name",
+    size: "Largest",
+    chunks: "Most chunks",
+};
+
+export default function FilePicker({
+    files,
+    selected,
+    onChange,
+    search,
+    onSearchChange,
+    sortBy,
+    onSortChange,
+    canLoadMore,
+    onLoadMore,
+}: FilePickerProps) {
+    const toggle = (fileName: string) => {
+        onChange(
+            selected.includes(fileName)
+                ? selected.filter((name) => name !== fileName)
+                : [...selected, fileName]
+        );
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <Input
+                    type="text"
+                    value={search}
+                    onChange={(e) => onSearchChange(e.target.value)}
+                    placeholder="Search by name..."
+                    className="flex-1"
+                />
+                <Select
+                    size="small"
+                    value={sortBy}
+                    disabled={search.trim() !== ""}
+                    onChange={(e) => onSortChange(e.target.value as FileSort)}
+                >
+                    {(Object.keys(SORT_LABELS) as FileSort[]).map((sort) => (
+                        <MenuItem key={sort} value={sort}>
+                            {SORT_LABELS[sort]}
+                        </MenuItem>
+                    ))}
+                </Select>
+            </div>
+            <FormControlLabel
+                control={
+                    <Checkbox
+                        size="small"
+                        checked={selected.length === 0}
+                        onChange={() => onChange([])}
+                    />
+                }
+                label={<span className="text-sm font-semibold">All documents</span>}
+            />
+            <div className="max-h-60 overflow-y-auto pl-4">
+                {files.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                        {search.trim() ? "No documents match your search" : "No documents to search yet"}
+                    </p>
+                )}
+                {files.map((file) => (
+                    <FormControlLabel
+                        key={file._id}
+                        className="flex"
+                        disabled={file.totalChunks === undefined || file.status === "deleting"}
+                        control={
+                            <Checkbox
+                                size="small"
+                                checked={selected.includes(file.fileName)}
+                                onChange={() => toggle(file.fileName)}
+                            />
+                        }
+                        label={
+                            <span className="text-sm text-gray-700 truncate">
+                                {file.fileName}
+                                <span className="text-gray-400">
+                                    {file.totalChunks !== undefined && ` • ${file.totalChunks} chunks`}
+                                    {file.size !== undefined && ` • ${formatFileSize(file.size)}`}
+                                </span>
+                                {file.status && file.status !== "ready" && (
+                                    <Chip
+                                        className="ml-2"
+                                        size="small"
+                                        label={STATUS_LABELS[file.status]}
+                                        color={file.status === "failed" ? "error" : "default"}
+                                    />
+                                )}
+                            </span>
+                        }
+                    />
+                ))}
+                {canLoadMore && (
+                    <Button variant="outline" size="sm" className="w-full mt-2" onClick={onLoadMore}>
+                        Load more
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { Eye, FileText, FolderInput, History, RotateCcw, Trash2 } from "lucide-react";
+import { IconButton, LinearProgress, ListItemText, Menu, MenuItem, Tooltip } from "@mui/material";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+
+interface FileStatusItemProps {
+    /** Row of api.files.listFiles */
+    file: Doc<"files">;
+    /** Latest ingestion job of the file, see api.ingestion.latestJobs; missing
+     *  for files embedded without a job */
+    job?: Doc<"ingestionJobs">;
+    /** Collections the file can be moved to, see api.collections.list */
+    collections: Array<{ _id: Id<"collections">; name: string }>;
+    /** Collection currently shown, whose entry is disabled in the move menu */
+    currentCollection: Id<"collections"> | null;
+    onRetry: (job: Doc<"ingestionJobs">) => void;
+    onRemove: (file: Doc<"files">, job?: Doc<"ingestionJobs">) => void;
+    onRollback: (file: Doc<"files">, version: number) => void;
+    onMove: (file: Doc<"files">, collectionId: Id<"collections"> | null) => void;
+}
+
+const STATUS_LABELS: Record<Doc<"ingestionJobs">["status"], string> = {
+    queued: "Queued",
+    extracting: "Extracting text",
+    chunking: "Splitting into chunks",
+    embedding: "Embedding",
+    done: "Ready",
+    failed: "Failed",
+};
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + " B";
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+    return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+};
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${seconds % 60}s`;
+};
+
+// Estimate the remaining embedding time from the chunk rate of the current run
+const estimateRemaining = (job: Doc<"ingestionJobs">, now: number): number | null => {
+    if (job.embeddingStartedAt === undefined || job.totalChunks === undefined) return null;
+    const embedded = job.nextChunk - (job.embeddingStartChunk ?? 0);
+    const elapsed = now - job.embeddingStartedAt;
+    if (embedded <= 0 || elapsed <= 0) return null;
+    return ((job.totalChunks - job.nextChunk) * elapsed) / embedded;
+};
+
+export default function FileStatusItem({
+    file,
+    job,
+    collections,
+    currentCollection,
+    onRetry,
+    onRemove,
+    onRollback,
+    onMove,
+}: FileStatusItemProps) {
+    const [now, setNow] = useState(() => Date.now());
+    const [historyAnchor, setHistoryAnchor] = useState<HTMLElement | null>(null);
+    const [moveAnchor, setMoveAnchor] = useState<HTMLElement | null>(null);
+    // Only subscribe to the version list while the history menu is open
+    const versions = useQuery(api.files.listVersions, historyAnchor ? { fileId: file._id } : "skip");
+    const isEmbedding = job?.status === "embedding";
+    const isDeleting = file.status === "deleting";
+    const isBusy = isDeleting || (job ? job.status !== "done" && job.status !== "failed" : file.status === "processing");
+    const isFailed = !isBusy && (job?.status === "failed" || file.activeVersion === undefined);
+    const canView = !isBusy && file.activeVersion !== undefined;
+
+    // Tick once a second while embedding so the ETA keeps counting down
+    useEffect(() => {
+        if (!isEmbedding) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [isEmbedding]);
+
+    const progress = job?.totalChunks ? (job.nextChunk / job.totalChunks) * 100 : 0;
+    const remaining = job && isEmbedding ? estimateRemaining(job, now) : null;
+
+    let detail = job ? STATUS_LABELS[job.status] : "Processing";
+    if (isDeleting) {
+        detail = "Deleting";
+    } else if (job && isEmbedding && job.totalChunks) {
+        detail += ` ${job.nextChunk}/${job.totalChunks} chunks`;
+        if (remaining !== null) detail += ` • ~${formatDuration(remaining)} left`;
+    } else if (isFailed) {
+        detail = job?.error ?? STATUS_LABELS.failed;
+    } else if (!isBusy) {
+        detail = `v${file.activeVersion} • ${formatFileSize(file.size ?? 0)} • ${file.totalChunks ?? 0} chunks`;
+        if (job?.version === file.activeVersion && job?.cachedChunks) detail += ` (${job.cachedChunks} reused)`;
+    } else if (job?.restoredFrom !== undefined) {
+        detail += ` (restoring v${job.restoredFrom})`;
+    }
+
+    return (
+        <div className="group flex items-center gap-3 p-3 bg-gradient-to-r from-purple-50 to-blue-50 rounded-lg border border-purple-200 hover:border-purple-300 transition-all">
+            <div className="w-10 h-10 rounded-lg bg-white flex items-center justify-center shadow-sm">
+                <FileText className="w-5 h-5 text-purple-600" />
+            </div>
+            <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">
+                    {file.fileName}
+                </p>
+                <p className={`text-xs truncate ${isFailed ? "text-red-600" : "text-gray-500"}`}>
+                    {detail}
+                </p>
+                {isBusy && (
+                    <LinearProgress
+                        className="mt-2 rounded"
+                        variant={isEmbedding ? "determinate" : "indeterminate"}
+                        value={progress}
+                    />
+                )}
+            </div>
+            {job?.status === "failed" && (
+                <Tooltip title="Retry">
+                    <IconButton size="small" onClick={() => onRetry(job)}>
+                        <RotateCcw className="w-4 h-4 text-purple-600" />
+                    </IconButton>
+                </Tooltip>
+            )}
+            {canView && (
+                <>
+                    <Tooltip title="View document">
+                        <IconButton size="small" component={Link} href={`/rag/documents/${file._id}`}>
+                            <Eye className="w-4 h-4 text-purple-600" />
+                        </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Version history">
+                        <IconButton size="small" onClick={(e) => setHistoryAnchor(e.currentTarget)}>
+                            <History className="w-4 h-4 text-purple-600" />
+                        </IconButton>
+                    </Tooltip>
+                    <Menu
+                        anchorEl={historyAnchor}
+                        open={historyAnchor !== null}
+                        onClose={() => setHistoryAnchor(null)}
+                    >
+                        {(versions ?? []).map((version) => (
+                            <MenuItem
+                                key={version._id}
+                                disabled={version.active}
+                                onClick={() => {
+                                    setHistoryAnchor(null);
+                                    onRollback(file, version.version);
+                                }}
+                            >
+                                <ListItemText
+                                    primary={`v${version.version}${version.active ? " (current)" : " • Restore"}`}
+                                    secondary={`${new Date(version.uploadedAt).toLocaleString()} • ${formatFileSize(version.size)}${
+                                        version.restoredFrom !== undefined ? ` • restored from v${version.restoredFrom}` : ""
+                                    }`}
+                                />
+                            </MenuItem>
+                        ))}
+                    </Menu>
+                    <Tooltip title="Move to collection">
+                        <IconButton size="small" onClick={(e) => setMoveAnchor(e.currentTarget)}>
+                            <FolderInput className="w-4 h-4 text-purple-600" />
+                        </IconButton>
+                    </Tooltip>
+                    <Menu
+                        anchorEl={moveAnchor}
+                        open={moveAnchor !== null}
+                        onClose={() => setMoveAnchor(null)}
+                    >
+                        {[{ _id: null, name: "No collection" }, ...collections].map((collection) => (
+                            <MenuItem
+                                key={collection._id ?? "none"}
+                                disabled={collection._id !== null && collection._id === currentCollection}
+                                onClick={() => {
+                                    setMoveAnchor(null);
+                                    onMove(file, collection._id);
+                                }}
+                            >
+                                {collection.name}
+                            </MenuItem>
+                        ))}
+                    </Menu>
+                </>
+            )}
+            {!isBusy && (
+                <Tooltip title="Remove file">
+                    <IconButton
+                        size="small"
+                        onClick={() => onRemove(file, job)}
+                        className="opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                    </IconButton>
+                </Tooltip>
+            )}
+        </div>
+    );
+}
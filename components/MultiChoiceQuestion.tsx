@@ -1,6 +1,7 @@
 "use client";
 
 import React from "react";
+import Link from "next/link";
 
 // Check and X icons as SVG components
 const CheckIcon = () => (
@@ -31,6 +32,12 @@ interface Question {
     };
     correctAnswer: string;
     explanation: string;
+    /** Chunk the question was generated from, opened in the document viewer */
+    citation?: {
+        fileId: string;
+        chunkIndex: number;
+        label: string;
+    };
 }
 
 interface MultiChoiceQuestionProps {
@@ -108,6 +115,14 @@ export default function MultiChoiceQuestion({
                             <p className="mt-1 text-sm text-indigo-700">
                                 {question.explanation}
                             </p>
+                            {question.citation && (
+                                <Link
+                                    href={`/rag/documents/${question.citation.fileId}#chunk-${question.citation.chunkIndex}`}
+                                    className="mt-2 inline-block text-xs font-semibold text-indigo-800 hover:underline"
+                                >
+                                    Source: {question.citation.label}
+                                </Link>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -8,14 +8,28 @@
  * @module
  */
 
+import type * as answerCache from "../answerCache.js";
 import type * as auth from "../auth.js";
+import type * as chunking from "../chunking.js";
+import type * as collections from "../collections.js";
+import type * as crons from "../crons.js";
 import type * as documents from "../documents.js";
+import type * as embeddingCache from "../embeddingCache.js";
+import type * as embeddingMigration from "../embeddingMigration.js";
+import type * as embeddings from "../embeddings.js";
+import type * as extraction from "../extraction.js";
 import type * as fileQuestionGenerator from "../fileQuestionGenerator.js";
+import type * as files from "../files.js";
+import type * as formats from "../formats.js";
+import type * as formatTypes from "../formatTypes.js";
 import type * as http from "../http.js";
+import type * as ingestion from "../ingestion.js";
+import type * as models from "../models.js";
 import type * as myFunctions from "../myFunctions.js";
 import type * as prompts from "../prompts.js";
 import type * as questionGenerator from "../questionGenerator.js";
 import type * as ragActions from "../ragActions.js";
+import type * as reranking from "../reranking.js";
 
 import type {
   ApiFromModules,
@@ -24,14 +38,28 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  answerCache: typeof answerCache;
   auth: typeof auth;
+  chunking: typeof chunking;
+  collections: typeof collections;
+  crons: typeof crons;
   documents: typeof documents;
+  embeddingCache: typeof embeddingCache;
+  embeddingMigration: typeof embeddingMigration;
+  embeddings: typeof embeddings;
+  extraction: typeof extraction;
   fileQuestionGenerator: typeof fileQuestionGenerator;
+  files: typeof files;
+  formats: typeof formats;
+  formatTypes: typeof formatTypes;
   http: typeof http;
+  ingestion: typeof ingestion;
+  models: typeof models;
   myFunctions: typeof myFunctions;
   prompts: typeof prompts;
   questionGenerator: typeof questionGenerator;
   ragActions: typeof ragActions;
+  reranking: typeof reranking;
 }>;
 
 /**
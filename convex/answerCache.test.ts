@@ -0,0 +1,125 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { getEmbeddingProvider } from "./embeddings";
+import { setChatScript } from "./models";
+import schema from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+const GYM_POLICY = "The gym opens at 6am on weekdays.";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  setChatScript("chat", undefined);
+});
+
+// Script the chat model and count how often it is asked
+const countAnswers = () => {
+  const calls = { count: 0 };
+  setChatScript("chat", () => {
+    calls.count++;
+    return `Answer ${calls.count}`;
+  });
+  return calls;
+};
+
+describe("answer cache", () => {
+  test("serves near-duplicate questions without retrieval or model calls", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    const calls = countAnswers();
+
+    const first = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    const second = await asUser.action(api.ragActions.ragChat, { query: "when does the gym open" });
+
+    expect(first.cached).toBeUndefined();
+    expect(second).toEqual({ success: true, cached: true, answer: "Answer 1", sources: first.sources });
+    expect(calls.count).toBe(1);
+
+    // The exact question again does not even embed the query
+    const spy = vi.spyOn(getEmbeddingProvider(), "embed");
+    await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  test("answers are scoped to the files and collection asked about", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    const calls = countAnswers();
+
+    await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    const scoped = await asUser.action(api.ragActions.ragChat, {
+      query: "When does the gym open?",
+      fileNames: ["gym.txt"],
+    });
+
+    expect(scoped.cached).toBeUndefined();
+    expect(calls.count).toBe(2);
+  });
+
+  test("re-ingesting or deleting a file invalidates cached answers", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "pool.txt", content: "The pool opens at 7am." });
+    countAnswers();
+
+    await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    await asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: "The gym opens at 5am on weekdays.",
+    });
+    const afterReupload = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    expect(afterReupload).toMatchObject({ answer: "Answer 2" });
+
+    await asUser.mutation(api.documents.deleteByFileName, { fileName: "pool.txt" });
+    const afterDelete = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    expect(afterDelete).toMatchObject({ answer: "Answer 3" });
+    expect(afterDelete.cached).toBeUndefined();
+  });
+
+  test("answers generated while a file changes are not cached", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    let reuploaded = false;
+    setChatScript("chat", async () => {
+      if (!reuploaded) {
+        reuploaded = true;
+        await asUser.action(api.ragActions.embedDocument, {
+          fileName: "gym.txt",
+          content: "The gym opens at 5am on weekdays.",
+        });
+        return "Answer from the old version";
+      }
+      return "Answer from the new version";
+    });
+
+    await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    const result = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+
+    expect(result).toMatchObject({ answer: "Answer from the new version" });
+    expect(result.cached).toBeUndefined();
+  });
+
+  test("cached answers expire", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    const calls = countAnswers();
+
+    await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const result = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+
+    expect(result.cached).toBeUndefined();
+    expect(calls.count).toBe(2);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Answer Cache Module
+ *
+ * Teammates ask the same questions over and over. ragChat stores every
+ * answer it generates together with the question's embedding, and answers a
+ * later question from the cache when it is a near-duplicate (cosine
+ * similarity of at least ANSWER_SIMILARITY) asked in the same scope: same
+ * user, files, collection, search mode and neighbour expansion.
+ *
+ * Cached answers expire after ANSWER_TTL_MS. Because an answer depends on
+ * every document that could have been retrieved, all of a user's cached
+ * answers are invalidated whenever one of their files gets a new active
+ * version, is deleted or moves between collections (see invalidateAnswers).
+ * Invalidation bumps a per-user cache generation that is part of the scope
+ * key, so stale entries are never matched again and simply expire. ragChat
+ * reads the generation before retrieval, and an answer generated while a
+ * file changed is not cached at all.
+ *
+ * Query embeddings themselves are reused through the embedding cache (see
+ * embeddingCache.embedQuery), so a repeated question is not embedded again
+ * either.
+ *
+ * @module answerCache
+ */
+
+import { v } from "convex/values";
+import { internalQuery, internalMutation, ActionCtx, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { ragSource, RagSource } from "./schema";
+
+/**
+ * How long a cached answer is served
+ */
+const ANSWER_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum cosine similarity between two questions for the cached answer of
+ * one to be served for the other
+ */
+const ANSWER_SIMILARITY = 0.95;
+
+/**
+ * Read a user's answer cache generation
+ *
+ * @param ctx - Query or mutation context
+ * @param userId - The user
+ * @returns The number of times the user's cached answers were invalidated
+ */
+async function readGeneration(ctx: QueryCtx, userId: Id<"users">): Promise<number> {
+  const row = await ctx.db
+    .query("answerCacheGenerations")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .unique();
+  return row?.generation ?? 0;
+}
+
+/**
+ * Get a user's answer cache generation, see answerScopeKey
+ *
+ * @param userId - The user
+ * @returns The current generation
+ */
+export const getGeneration = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await readGeneration(ctx, args.userId);
+  },
+});
+
+/**
+ * Build the key of the scope a question was asked in
+ *
+ * @param userId - The asking user
+ * @param generation - The user's answer cache generation, see getGeneration
+ * @param scope - Files, collection and retrieval options of the question
+ * @returns A string equal for questions whose retrieval would search the
+ *   same chunks the same way
+ */
+export function answerScopeKey(
+  userId: Id<"users">,
+  generation: number,
+  scope: {
+    fileNames?: string[];
+    collectionId?: Id<"collections">;
+    mode?: string;
+    expandNeighbors?: boolean;
+  }
+): string {
+  return JSON.stringify([
+    userId,
+    generation,
+    scope.collectionId ?? null,
+    scope.fileNames ? [...new Set(scope.fileNames)].sort() : null,
+    scope.mode ?? "hybrid",
+    scope.expandNeighbors ?? true,
+  ]);
+}
+
+/**
+ * Find a cached answer to a near-duplicate question
+ *
+ * @param ctx - Action context
+ * @param scopeKey - Scope of the question, see answerScopeKey
+ * @param embedding - Embedding of the question
+ * @returns The cached answer and its sources, or null on a miss
+ */
+export async function findCachedAnswer(
+  ctx: ActionCtx,
+  scopeKey: string,
+  embedding: number[]
+): Promise<{ answer: string; sources: RagSource[] } | null> {
+  const [hit] = await ctx.vectorSearch("answerCache", "by_embedding", {
+    vector: embedding,
+    limit: 1,
+    filter: (q) => q.eq("scopeKey", scopeKey),
+  });
+  if (hit === undefined || hit._score < ANSWER_SIMILARITY) {
+    return null;
+  }
+  return await ctx.runQuery(internal.answerCache.getAnswer, { entryId: hit._id });
+}
+
+/**
+ * Load a cached answer that has not expired
+ *
+ * @param entryId - The cache entry
+ * @returns The answer and its sources, or null if the entry is gone or expired
+ */
+export const getAnswer = internalQuery({
+  args: { entryId: v.id("answerCache") },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.entryId);
+    if (entry === null || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return { answer: entry.answer, sources: entry.sources };
+  },
+});
+
+/**
+ * Cache a generated answer
+ *
+ * The entry is deleted when its TTL runs out. Nothing is cached when the
+ * user's cached answers were invalidated since `generation` was read, as the
+ * answer may have been built from documents that changed meanwhile.
+ *
+ * @param userId - The asking user
+ * @param generation - Answer cache generation read before retrieval
+ * @param scopeKey - Scope of the question, see answerScopeKey
+ * @param question - The question as asked
+ * @param embedding - Embedding of the question
+ * @param answer - The generated answer
+ * @param sources - The answer's sources
+ */
+export const storeAnswer = internalMutation({
+  args: {
+    userId: v.id("users"),
+    generation: v.number(),
+    scopeKey: v.string(),
+    question: v.string(),
+    embedding: v.array(v.float64()),
+    answer: v.string(),
+    sources: v.array(ragSource),
+  },
+  handler: async (ctx, { generation, ...entry }) => {
+    if ((await readGeneration(ctx, entry.userId)) !== generation) {
+      return;
+    }
+    const entryId = await ctx.db.insert("answerCache", { ...entry, expiresAt: Date.now() + ANSWER_TTL_MS });
+    await ctx.scheduler.runAfter(ANSWER_TTL_MS, internal.answerCache.expireAnswer, { entryId });
+  },
+});
+
+/**
+ * Delete a cached answer whose TTL ran out
+ *
+ * @param entryId - The cache entry
+ */
+export const expireAnswer = internalMutation({
+  args: { entryId: v.id("answerCache") },
+  handler: async (ctx, args) => {
+    if ((await ctx.db.get(args.entryId)) !== null) {
+      await ctx.db.delete(args.entryId);
+    }
+  },
+});
+
+/**
+ * Invalidate all of a user's cached answers
+ *
+ * Called whenever the set of documents their questions are answered from
+ * changes: a file gets a new active version, is deleted or changes
+ * collection. Bumps the user's cache generation instead of deleting the
+ * entries, which are left to expire (see expireAnswer).
+ *
+ * @param ctx - Mutation context
+ * @param userId - Owner of the changed file
+ */
+export async function invalidateAnswers(ctx: MutationCtx, userId: Id<"users">): Promise<void> {
+  const row = await ctx.db
+    .query("answerCacheGenerations")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .unique();
+  if (row === null) {
+    await ctx.db.insert("answerCacheGenerations", { userId, generation: 1 });
+  } else {
+    await ctx.db.patch(row._id, { generation: row.generation + 1 });
+  }
+}
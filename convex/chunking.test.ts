@@ -0,0 +1,212 @@
+import { describe, expect, test } from "vitest";
+import {
+  chunkDocument,
+  embeddingText,
+  formatCitation,
+  formatPageRange,
+  mergeChunkTexts,
+  parseSections,
+  splitChunkOverlaps,
+  CHUNK_OVERLAP,
+  RECORD_BREAK,
+} from "./chunking";
+
+const HANDBOOK = `Welcome to the handbook.
+
+# Chapter 3
+
+Introduction to the workshop.
+
+## Safety Rules
+
+Always wear a helmet.
+
+### Fire
+
+Know where the extinguisher is.
+
+## Opening Hours ##
+
+The workshop opens at 8am.
+
+# Chapter 4
+
+\`\`\`bash
+# not a heading
+\`\`\`
+`;
+
+describe("parseSections", () => {
+  test("tracks the heading path of every section", () => {
+    const sections = parseSections(HANDBOOK);
+
+    expect(sections.map((section) => section.headingPath)).toEqual([
+      [],
+      ["Chapter 3"],
+      ["Chapter 3", "Safety Rules"],
+      ["Chapter 3", "Safety Rules", "Fire"],
+      ["Chapter 3", "Opening Hours"],
+      ["Chapter 4"],
+    ]);
+  });
+
+  test("ignores headings inside fenced code blocks", () => {
+    const sections = parseSections(HANDBOOK);
+
+    expect(sections[sections.length - 1].body).toBe("```bash\n# not a heading\n```");
+  });
+});
+
+describe("chunkDocument", () => {
+  test("stores the heading path and section title on each chunk", async () => {
+    const chunks = await chunkDocument(HANDBOOK);
+
+    expect(chunks[2]).toEqual({
+      text: "Always wear a helmet.",
+      headingPath: ["Chapter 3", "Safety Rules"],
+      sectionTitle: "Safety Rules",
+      overlap: 0,
+    });
+    expect(chunks[0].sectionTitle).toBeUndefined();
+  });
+
+  test("never lets a chunk span two sections", async () => {
+    const body = "Short paragraph about rules.\n\n".repeat(50);
+    const chunks = await chunkDocument(`# One\n\n${body}\n# Two\n\n${body}`);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(1000);
+      expect(chunk.text).not.toContain("#");
+    }
+    expect(new Set(chunks.map((chunk) => chunk.sectionTitle))).toEqual(new Set(["One", "Two"]));
+  });
+
+  test("splits plain text at paragraph boundaries", async () => {
+    const paragraph = "This sentence is exactly fifty characters long ok. ".repeat(8).trim();
+    const chunks = await chunkDocument(Array(6).fill(paragraph).join("\n\n"));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith("This sentence")).toBe(true);
+      expect(chunk.text.endsWith("ok.")).toBe(true);
+      expect(chunk.headingPath).toEqual([]);
+    }
+  });
+
+  test("returns no chunks for blank text", async () => {
+    expect(await chunkDocument("   \n\n  ")).toEqual([]);
+  
+  });
+
+  test("records the pages each chunk spans", async () => {
+    const page = (n: number) => `Page ${n} paragraph with some words in it.`.padEnd(300, " filler") + ".";
+    const text = [1, 2, 3, 4].map((n) => `${page(n)}\n\n${page(n)}`).join("\n\n\f\n\n");
+    const chunks = await chunkDocument(text);
+
+    expect(chunks[0]).toMatchObject({ pageStart: 1, pageEnd: 2 });
+    expect(chunks[chunks.length - 1].pageEnd).toBe(4);
+    for (const chunk of chunks) {
+      expect(chunk.text).not.toContain("\f");
+      expect(chunk.text).toContain(`Page ${chunk.pageStart} `);
+      expect(chunk.text).toContain(`Page ${chunk.pageEnd} `);
+    }
+  });
+
+  test("carries page numbers across headings", async () => {
+    const chunks = await chunkDocument("Intro.\n\n\f\n\n# Chapter 2\n\nSecond page.\n\n\f\n\nThird page.");
+
+    expect(chunks.map(({ text, pageStart, pageEnd }) => ({ text, pageStart, pageEnd }))).toEqual([
+      { text: "Intro.", pageStart: 1, pageEnd: 1 },
+      { text: "Second page.\n\nThird page.", pageStart: 2, pageEnd: 3 },
+    ]);
+  });
+
+  test("leaves pages out for text without page breaks", async () => {
+    const [chunk] = await chunkDocument("Just one page.");
+    expect(chunk.pageStart).toBeUndefined();
+    expect(chunk.pageEnd).toBeUndefined();
+  });
+});
+
+describe("formatPageRange", () => {
+  test("formats single pages and ranges", () => {
+    expect(formatPageRange(12, 12)).toBe("p. 12");
+    expect(formatPageRange(12, 13)).toBe("p. 12–13");
+    expect(formatPageRange(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe("formatCitation", () => {
+  test("joins file, section and pages", () => {
+    expect(
+      formatCitation({ fileName: "handbook.pdf", headingPath: ["Chapter 3", "Safety Rules"], pageStart: 12, pageEnd: 13 })
+    ).toBe("handbook.pdf > Chapter 3 > Safety Rules, p. 12–13");
+    expect(formatCitation({ fileName: "notes.txt", headingPath: [] })).toBe("notes.txt");
+  });
+});
+
+describe("embeddingText", () => {
+  test("prefixes the heading path", () => {
+    expect(
+      embeddingText({ text: "Wear a helmet.", headingPath: ["Chapter 3", "Safety Rules"], sectionTitle: "Safety Rules" })
+    ).toBe("Chapter 3 > Safety Rules\n\nWear a helmet.");
+    expect(embeddingText({ text: "Hello.", headingPath: [] })).toBe("Hello.");
+  });
+});
+
+describe("mergeChunkTexts", () => {
+  test("writes the overlap of neighbouring chunks once", async () => {
+    const text = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} explains one more rule.`).join(" ");
+    const chunks = await chunkDocument(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(mergeChunkTexts(chunks)).toBe(text);
+    // Chunks stored before overlaps were recorded
+    expect(mergeChunkTexts(chunks.map((chunk) => ({ text: chunk.text, headingPath: chunk.headingPath })))).toBe(text);
+  });
+
+  test("joins chunks without overlap as paragraphs", () => {
+    expect(mergeChunkTexts([{ text: "First section." }, { text: "Second section." }])).toBe(
+      "First section.\n\nSecond section."
+    );
+  });
+});
+
+describe("splitChunkOverlaps", () => {
+  test("marks the text each chunk repeats from the one before", async () => {
+    const text = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} explains one more rule.`).join(" ");
+    const chunks = await chunkDocument(text);
+    const segments = splitChunkOverlaps(chunks);
+
+    expect(segments.map((segment) => segment.text).join("")).toBe(text);
+    expect(segments[0].overlap).toBe(0);
+    segments.slice(1).forEach((segment, i) => {
+      expect(segment.overlap).toBeGreaterThan(0);
+      expect(segment.overlap).toBeLessThanOrEqual(CHUNK_OVERLAP);
+      expect(chunks[i].text.endsWith(chunks[i + 1].text.slice(0, segment.overlap))).toBe(true);
+    });
+  });
+
+  test("keeps repeated records", async () => {
+    const record = "Name: Alice Smith, role: engineer, team: platform";
+    const chunks = await chunkDocument([record, record, record].join(RECORD_BREAK));
+
+    expect(chunks.map((chunk) => chunk.overlap)).toEqual([0, 0, 0]);
+    expect(splitChunkOverlaps(chunks).map((segment) => segment.text)).toEqual([record, record, record]);
+    // Also when the overlaps have to be guessed
+    const guessed = splitChunkOverlaps(chunks.map((chunk) => ({ text: chunk.text })));
+    expect(guessed.map((segment) => segment.text)).toEqual([record, record, record]);
+  });
+
+  test("never cuts text across a section boundary", async () => {
+    const chunks = await chunkDocument(
+      "# Gym\n\nMembers must follow the safety rules posted at the door\n\n" +
+        "# Pool\n\nthe safety rules posted at the door also apply to the pool."
+    );
+
+    expect(chunks.map((chunk) => chunk.overlap)).toEqual([0, 0]);
+    const guessed = splitChunkOverlaps(chunks.map((chunk) => ({ text: chunk.text, headingPath: chunk.headingPath })));
+    expect(guessed.map((segment) => segment.text)).toEqual(chunks.map((chunk) => chunk.text));
+  });
+});
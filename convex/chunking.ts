@@ -0,0 +1,437 @@
+/**
+ * Document Chunking Module
+ *
+ * Splits extracted document text into chunks for embedding while keeping
+ * track of where each chunk sits in the document's structure:
+ *
+ * 1. Markdown ATX headings (`#` to `######`) divide the text into sections.
+ *    Each section remembers the titles of its enclosing headings, e.g.
+ *    ["Chapter 3", "Safety Rules"].
+ * 2. Each section body is split with a RecursiveCharacterTextSplitter from
+ *    @langchain/textsplitters, which prefers paragraph breaks, then line
+ *    breaks, then sentence ends, and only cuts mid-sentence as a last resort.
+ *
+ * A chunk never spans two sections, so its heading path can be stored in the
+ * chunk metadata and shown in citations and quiz subtopics. PDF extraction
+ * (extraction.ts) turns detected PDF headings into Markdown headings, so PDFs
+ * get the same treatment. Text without headings is split by paragraphs only.
+ *
+ * Form feeds (`\f`) mark page breaks. PDF extraction puts one between every
+ * page, and each chunk of a paged text records the pages it spans.
+ *
+ * Record separators (`\u001e`) mark self-contained records such as table rows
+ * (see formats.ts). Text between two record breaks is chunked on its own and
+ * never merged with its neighbours. A record may start with a time range
+ * marker (see timeRangeMarker), which transcripts use to record the part of
+ * the recording each chunk covers.
+ *
+ * @module chunking
+ */
+
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+
+/**
+ * Target chunk size in characters
+ */
+export const CHUNK_SIZE = 1000;
+
+/**
+ * Characters shared by neighbouring chunks of the same section
+ */
+export const CHUNK_OVERLAP = 200;
+
+/**
+ * A chunk of document text with its position in the document structure
+ */
+export interface DocumentChunk {
+  text: string;
+  /** Titles of the enclosing headings, outermost first */
+  headingPath: string[];
+  /** Title of the innermost enclosing heading, if any */
+  sectionTitle?: string;
+  /** First and last page (1-based) the chunk spans, for paged text only */
+  pageStart?: number;
+  pageEnd?: number;
+  /** Start and end (seconds) of the recording the chunk covers, for transcripts only */
+  startTime?: number;
+  endTime?: number;
+  /**
+   * Number of leading characters repeated from the chunk before, which is 0
+   * unless both come from the same record of one section
+   */
+  overlap?: number;
+}
+
+interface Section {
+  headingPath: string[];
+  body: string;
+  /** Page (1-based) on which `body` starts */
+  page: number;
+}
+
+/**
+ * Page break marker inside extracted text
+ */
+export const PAGE_BREAK = "\f";
+
+/**
+ * Record break marker inside extracted text, e.g. between table rows
+ */
+export const RECORD_BREAK = "\u001e";
+
+// "\u001d12.5-74\u001d" at the start of a record
+const TIME_RANGE = /^\s*\u001d(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)\u001d\s*/;
+
+/**
+ * Marker that puts a record on the timeline of a recording
+ *
+ * @param startTime - Start of the record in seconds
+ * @param endTime - End of the record in seconds
+ * @returns Marker to put at the start of the record
+ */
+export function timeRangeMarker(startTime: number, endTime: number): string {
+  return `\u001d${startTime}-${endTime}\u001d`;
+}
+
+function countPageBreaks(text: string): number {
+  return text.split(PAGE_BREAK).length - 1;
+}
+
+// "## Safety Rules" or "## Safety Rules ##"
+const HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+// Headings inside fenced code blocks are code, not structure
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Split Markdown text into sections at its headings
+ *
+ * Sections without any body text (a heading directly followed by a
+ * sub-heading) are dropped; their titles live on in the heading path of the
+ * sections below them.
+ *
+ * @param text - Markdown or plain text
+ * @returns Sections in document order
+ */
+export function parseSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let lines: string[] = [];
+  let inCodeBlock = false;
+  let page = 1;
+
+  const flush = () => {
+    const raw = lines.join("\n");
+    const body = raw.trim();
+    if (body.length > 0) {
+      // Page breaks trimmed off the front still move the body to a later page
+      const leading = raw.slice(0, raw.length - raw.trimStart().length);
+      sections.push({
+        headingPath: headings.map((heading) => heading.title),
+        body,
+        page: page + countPageBreaks(leading),
+      });
+    }
+    page += countPageBreaks(raw);
+    lines = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (CODE_FENCE.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const match = inCodeBlock ? null : line.match(HEADING);
+    if (match === null) {
+      lines.push(line);
+      continue;
+    }
+
+    flush();
+    const level = match[1].length;
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+      headings.pop();
+    }
+    headings.push({ level, title: match[2] });
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Split a document into structure-aware chunks
+ *
+ * @param text - Extracted document text (Markdown headings, `\f` page breaks
+ *   and `\u001e` record breaks are recognised)
+ * @param chunkSize - Target size for each chunk in characters (default: 1000)
+ * @param chunkOverlap - Overlap between chunks of one section (default: 200)
+ * @returns Chunks in document order, each with its heading path, its overlap
+ *   with the chunk before and, if the text has page breaks or time ranges,
+ *   its page or time range
+ *
+ * @example
+ * ```typescript
+ * const chunks = await chunkDocument("# Chapter 3\n\n## Safety Rules\n\nWear a helmet.");
+ * // [{ text: "Wear a helmet.", headingPath: ["Chapter 3", "Safety Rules"], sectionTitle: "Safety Rules", overlap: 0 }]
+ * ```
+ */
+export async function chunkDocument(
+  text: string,
+  chunkSize: number = CHUNK_SIZE,
+  chunkOverlap: number = CHUNK_OVERLAP
+): Promise<DocumentChunk[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize,
+    chunkOverlap,
+    separators: ["\n\n", "\n", ". ", " ", ""],
+  });
+
+  const paged = text.includes(PAGE_BREAK);
+  const chunks: DocumentChunk[] = [];
+  for (const section of parseSections(text)) {
+    const sectionTitle = section.headingPath[section.headingPath.length - 1];
+    const pieces: Array<{ text: string; overlap: number; startTime?: number; endTime?: number }> = [];
+    for (const record of section.body.split(RECORD_BREAK)) {
+      const time = record.match(TIME_RANGE);
+      const body = time ? record.slice(time[0].length) : record;
+      // Pieces of one record come back in order, each overlapping the one
+      // before by the characters between its start and the previous end
+      let searchFrom = 0;
+      let previousEnd = 0;
+      for (const text of await splitter.splitText(body)) {
+        const start = body.indexOf(text, searchFrom);
+        const overlap = start >= 0 ? Math.max(previousEnd - start, 0) : 0;
+        if (start >= 0) {
+          searchFrom = start + 1;
+          previousEnd = start + text.length;
+        }
+        pieces.push(
+          time ? { text, overlap, startTime: Number(time[1]), endTime: Number(time[2]) } : { text, overlap }
+        );
+      }
+    }
+
+    // Pieces come back in order and overlapping, so each one is found at or
+    // after the start of the previous one
+    let searchFrom = 0;
+    let previous: DocumentChunk | null = null;
+    for (const piece of pieces) {
+      const trimmed = piece.text.trim();
+      const chunkText = trimmed.replace(/\s*\f\s*/g, "\n\n");
+      if (chunkText.length === 0) {
+        previous = null;
+        continue;
+      }
+
+      // The overlap as it reads in both chunk texts, or none if trimming or
+      // page break replacement changed it
+      const leading = piece.text.length - piece.text.trimStart().length;
+      const repeated = trimmed
+        .slice(0, Math.max(piece.overlap - leading, 0))
+        .replace(/\s*\f\s*/g, "\n\n")
+        .trimEnd();
+      const overlap =
+        piece.overlap > 0 && repeated.length < chunkText.length && previous?.text.endsWith(repeated)
+          ? repeated.length
+          : 0;
+
+      const chunk: DocumentChunk = { text: chunkText, headingPath: section.headingPath, sectionTitle, overlap };
+      if (piece.startTime !== undefined) {
+        chunk.startTime = piece.startTime;
+        chunk.endTime = piece.endTime;
+      }
+      if (paged) {
+        const offset = Math.max(section.body.indexOf(trimmed, searchFrom), searchFrom);
+        searchFrom = offset + 1;
+        chunk.pageStart = section.page + countPageBreaks(section.body.slice(0, offset));
+        chunk.pageEnd = chunk.pageStart + countPageBreaks(trimmed);
+      }
+      chunks.push(chunk);
+      previous = chunk;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Format a heading path for display, e.g. "Chapter 3 > Safety Rules"
+ *
+ * @param headingPath - Heading titles, outermost first
+ * @returns The joined path, or undefined for chunks outside any section
+ */
+export function formatHeadingPath(headingPath: string[] | undefined): string | undefined {
+  return headingPath && headingPath.length > 0 ? headingPath.join(" > ") : undefined;
+}
+
+/**
+ * Format a page range for citations, e.g. "p. 12" or "p. 12–13"
+ *
+ * @param pageStart - First page of the chunk
+ * @param pageEnd - Last page of the chunk
+ * @returns The citation, or undefined for chunks without pages
+ */
+export function formatPageRange(pageStart: number | undefined, pageEnd: number | undefined): string | undefined {
+  if (pageStart === undefined) {
+    return undefined;
+  }
+  return pageEnd !== undefined && pageEnd !== pageStart ? `p. ${pageStart}–${pageEnd}` : `p. ${pageStart}`;
+}
+
+/**
+ * Format a position in a recording, e.g. "12:34" or "1:02:03"
+ *
+ * @param seconds - Offset from the start of the recording
+ * @returns The timestamp, with hours only for recordings that long
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Format where a chunk comes from, e.g. "handbook.pdf > Chapter 3 > Safety Rules, p. 12–13"
+ * or "onboarding.vtt, at 12:34"
+ *
+ * Used to label chunks in LLM prompts so answers and quiz explanations can
+ * cite their sources.
+ *
+ * @param metadata - Chunk metadata (file name, heading path, page or time range)
+ * @returns The file name followed by the section, pages and timestamp that
+ *   are known
+ */
+export function formatCitation(metadata: {
+  fileName: string;
+  headingPath?: string[];
+  pageStart?: number;
+  pageEnd?: number;
+  startTime?: number;
+}): string {
+  const section = formatHeadingPath(metadata.headingPath);
+  const pages = formatPageRange(metadata.pageStart, metadata.pageEnd);
+  const time = metadata.startTime !== undefined ? `at ${formatTimestamp(metadata.startTime)}` : undefined;
+  return [section ? `${metadata.fileName} > ${section}` : metadata.fileName, pages, time]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Shorter matches between neighbouring chunks are likely coincidental
+const MIN_MERGE_OVERLAP = 20;
+
+/**
+ * A stored chunk as needed to rebuild the text around it
+ */
+export interface ChunkText {
+  text: string;
+  headingPath?: string[];
+  /** Overlap recorded by chunkDocument; unset for chunks stored before it was */
+  overlap?: number;
+}
+
+/**
+ * A chunk's contribution to the text rebuilt from consecutive chunks
+ */
+export interface ChunkSegment {
+  /** Number of leading characters the chunk shares with the chunk before it */
+  overlap: number;
+  /** The rest of the chunk text, which is new */
+  text: string;
+}
+
+/**
+ * Guess the overlap of a chunk stored without one
+ *
+ * Only chunks of the same section overlap, by at most CHUNK_OVERLAP
+ * characters, and never by the whole chunk: a repeated record is kept.
+ *
+ * @param previous - The chunk before
+ * @param chunk - The chunk
+ * @returns The length of the longest end of `previous` that `chunk` starts
+ *   with, or 0 if shorter than MIN_MERGE_OVERLAP
+ */
+function guessOverlap(previous: ChunkText, chunk: ChunkText): number {
+  if (formatHeadingPath(previous.headingPath) !== formatHeadingPath(chunk.headingPath)) {
+    return 0;
+  }
+  const longest = Math.min(previous.text.length, chunk.text.length - 1, CHUNK_OVERLAP);
+  for (let length = longest; length >= MIN_MERGE_OVERLAP; length--) {
+    if (previous.text.endsWith(chunk.text.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Find what each of several consecutive chunks adds to the ones before it
+ *
+ * Neighbouring chunks of a section share up to CHUNK_OVERLAP characters,
+ * which chunkDocument records as each chunk's overlap. For chunks stored
+ * before that, the overlap is guessed from the texts (see guessOverlap).
+ * Chunks without an overlap, e.g. the first chunk of a section or record,
+ * have an overlap of 0 and start a new paragraph.
+ *
+ * @param chunks - Chunks in document order
+ * @returns One segment per chunk, in the same order
+ *
+ * @example
+ * ```typescript
+ * splitChunkOverlaps([
+ *   { text: "Wear a helmet in the workshop at all times.", overlap: 0 },
+ *   { text: "in the workshop at all times. Goggles too.", overlap: 29 },
+ * ]);
+ * // [{ overlap: 0, text: "Wear a helmet in the workshop at all times." },
+ * //  { overlap: 29, text: " Goggles too." }]
+ * ```
+ */
+export function splitChunkOverlaps(chunks: ChunkText[]): ChunkSegment[] {
+  return chunks.map((chunk, i) => {
+    const previous = chunks[i - 1];
+    let overlap = 0;
+    if (previous !== undefined) {
+      overlap = chunk.overlap !== undefined ? Math.min(chunk.overlap, chunk.text.length) : guessOverlap(previous, chunk);
+    }
+    return { overlap, text: chunk.text.slice(overlap) };
+  });
+}
+
+/**
+ * Join consecutive chunks of a document into one passage
+ *
+ * The overlap of neighbouring chunks is written only once; chunks without
+ * an overlap are joined as paragraphs (see splitChunkOverlaps).
+ *
+ * @param chunks - Chunks in document order
+ * @returns The passage text
+ *
+ * @example
+ * ```typescript
+ * mergeChunkTexts([
+ *   { text: "Wear a helmet in the workshop at all times.", overlap: 0 },
+ *   { text: "in the workshop at all times. Goggles too.", overlap: 29 },
+ * ]);
+ * // "Wear a helmet in the workshop at all times. Goggles too."
+ * ```
+ */
+export function mergeChunkTexts(chunks: ChunkText[]): string {
+  return splitChunkOverlaps(chunks)
+    .map((segment, i) => (i > 0 && segment.overlap === 0 ? `\n\n${segment.text}` : segment.text))
+    .join("");
+}
+
+/**
+ * Text that is sent to the embedding model for a chunk
+ *
+ * The heading path is prepended so a chunk that only says "Wear a helmet."
+ * is still found by a question about the safety rules of chapter 3. The
+ * stored chunk text stays unchanged.
+ *
+ * @param chunk - The chunk to embed
+ * @returns The chunk text, prefixed with its heading path if it has one
+ */
+export function embeddingText(chunk: DocumentChunk): string {
+  const path = formatHeadingPath(chunk.headingPath);
+  return path ? `${path}\n\n${chunk.text}` : chunk.text;
+}
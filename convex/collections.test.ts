@@ -0,0 +1,137 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+const GYM_POLICY = "The gym opens at 6am on weekdays and closes at 10pm.";
+const PARKING_POLICY = "Visitors must park in the north lot and display a permit.";
+
+describe("collections", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects duplicate and empty names", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.mutation(api.collections.create, { name: "Onboarding" });
+    await expect(asUser.mutation(api.collections.create, { name: " Onboarding " })).rejects.toThrow(
+      'A collection named "Onboarding" already exists'
+    );
+    await expect(asUser.mutation(api.collections.create, { name: "  " })).rejects.toThrow(
+      "Collection name cannot be empty"
+    );
+  });
+
+  test("scopes search to the files in a collection", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const onboarding = await asUser.mutation(api.collections.create, { name: "Onboarding" });
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    const files = await asUser.query(api.documents.getAllFiles, {});
+    const gym = files.find((file) => file.fileName === "gym.txt")!;
+    await asUser.mutation(api.collections.assignFile, { fileId: gym.fileId, collectionId: onboarding });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const gymDocs = await asUser.query(api.documents.getByFileName, { fileName: "gym.txt" });
+    for (const mode of ["vector", "keyword", "hybrid"] as const) {
+      const results = await asUser.action(api.documents.search, {
+        query: "park in the north lot",
+        collectionId: onboarding,
+        mode,
+      });
+      expect(results.map((result) => result._id)).toEqual(gymDocs.map((doc) => doc._id));
+    }
+    expect(await asUser.query(api.collections.list, {})).toEqual([{ _id: onboarding, name: "Onboarding", files: 1 }]);
+  });
+
+  test("uploads go into the selected collection", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const safety = await asUser.mutation(api.collections.create, { name: "Safety manual" });
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([GYM_POLICY], { type: "text/plain" })));
+
+    await asUser.mutation(api.ingestion.startIngestion, {
+      storageId,
+      fileName: "gym.txt",
+      contentType: "text/plain",
+      size: GYM_POLICY.length,
+      collectionId: safety,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "gym.txt" });
+    expect(docs.map((doc) => doc.collectionId)).toEqual([safety]);
+    const results = await asUser.action(api.documents.vectorSearch, { query: "gym hours", collectionId: safety });
+    expect(results).toHaveLength(1);
+  });
+
+  test("a moved file leaves its old collection before its chunks are updated", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const onboarding = await asUser.mutation(api.collections.create, { name: "Onboarding" });
+    const course = await asUser.mutation(api.collections.create, { name: "Course 101" });
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    const [gym] = await asUser.query(api.documents.getAllFiles, {});
+    await asUser.mutation(api.collections.assignFile, { fileId: gym.fileId, collectionId: onboarding });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    await asUser.mutation(api.collections.assignFile, { fileId: gym.fileId, collectionId: course });
+    expect(
+      await asUser.action(api.documents.vectorSearch, { query: "gym hours", collectionId: onboarding })
+    ).toEqual([]);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(
+      await asUser.action(api.documents.vectorSearch, { query: "gym hours", collectionId: course })
+    ).toHaveLength(1);
+  });
+
+  test("removing a collection keeps its files", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const onboarding = await asUser.mutation(api.collections.create, { name: "Onboarding" });
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    const [gym] = await asUser.query(api.documents.getAllFiles, {});
+    await asUser.mutation(api.collections.assignFile, { fileId: gym.fileId, collectionId: onboarding });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await asUser.mutation(api.collections.remove, { collectionId: onboarding })).toEqual({ files: 1 });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "gym.txt" });
+    expect(docs).toHaveLength(1);
+    expect(docs[0].collectionId).toBeUndefined();
+  });
+
+  test("other users' collections are off limits", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+    const aliceCollection = await alice.asUser.mutation(api.collections.create, { name: "Onboarding" });
+
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    const [gym] = await alice.asUser.query(api.documents.getAllFiles, {});
+    await alice.asUser.mutation(api.collections.assignFile, { fileId: gym.fileId, collectionId: aliceCollection });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    await bob.asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    const [parking] = await bob.asUser.query(api.documents.getAllFiles, {});
+    await expect(
+      bob.asUser.mutation(api.collections.assignFile, { fileId: parking.fileId, collectionId: aliceCollection })
+    ).rejects.toThrow("Collection not found");
+    expect(
+      await bob.asUser.action(api.documents.vectorSearch, { query: "gym hours", collectionId: aliceCollection })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Collections Module
+ *
+ * Collections are named groups of a user's files, such as "Onboarding",
+ * "Safety manual" or "Course 101". A file belongs to at most one collection,
+ * and search, ragChat and quiz generation can be scoped to a collection
+ * instead of the user's whole document pool.
+ *
+ * The collection is stored on the file and copied onto every chunk and chunk
+ * embedding as `collectionId`, which is a filter field of the vector and full-text
+ * indexes. Moving a file to another collection is a single write to the
+ * file; its chunks are updated in the background by syncChunks. Until they
+ * are, search drops chunks whose file is no longer in the requested
+ * collection (see documents.keepActive), so a moved file never answers for
+ * its old collection.
+ *
+ * @module collections
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireUserId, setChunkCollection } from "./documents";
+import { invalidateAnswers } from "./answerCache";
+
+/**
+ * Number of chunks updated per scheduled syncChunks run
+ */
+const SYNC_BATCH_SIZE = 200;
+
+/**
+ * Longest allowed collection name
+ */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Load one of a user's collections or fail
+ *
+ * @param ctx - Query or mutation context
+ * @param userId - User the collection must belong to
+ * @param collectionId - The collection
+ * @returns The collection
+ *
+ * @throws Error if the collection does not exist or belongs to someone else
+ */
+export async function requireCollection(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  collectionId: Id<"collections">
+): Promise<Doc<"collections">> {
+  const collection = await ctx.db.get(collectionId);
+  if (collection === null || collection.userId !== userId) {
+    throw new Error("Collection not found");
+  }
+  return collection;
+}
+
+// Trim a collection name and make sure the user has no other collection with it
+async function validateName(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  name: string,
+  collectionId?: Id<"collections">
+): Promise<string> {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Collection name cannot be empty");
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`Collection name cannot be longer than ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const existing = await ctx.db
+    .query("collections")
+    .withIndex("by_userId_name", (q) => q.eq("userId", userId).eq("name", trimmed))
+    .unique();
+  if (existing !== null && existing._id !== collectionId) {
+    throw new Error(`A collection named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * Assign a file to a collection, or remove it from its collection
+ *
+ * Search follows the file immediately; the chunks' copy of the collection is
+ * updated in the background.
+ *
+ * @param ctx - Mutation context
+ * @param file - The file to move
+ * @param collectionId - Target collection, or undefined for none
+ */
+export async function setFileCollection(
+  ctx: MutationCtx,
+  file: Doc<"files">,
+  collectionId: Id<"collections"> | undefined
+): Promise<void> {
+  if (file.collectionId === collectionId) {
+    return;
+  }
+  await ctx.db.patch(file._id, { collectionId });
+  await invalidateAnswers(ctx, file.userId);
+  await ctx.scheduler.runAfter(0, internal.collections.syncChunks, { fileId: file._id, cursor: null });
+}
+
+/**
+ * List the caller's collections, sorted by name
+ *
+ * @returns Collections with their ID, name and number of files
+ *
+ * @example
+ * ```typescript
+ * const collections = useQuery(api.collections.list) ?? [];
+ * ```
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const collections = await ctx.db
+      .query("collections")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+
+    const summaries = [];
+    for (const collection of collections) {
+      const files = await ctx.db
+        .query("files")
+        .withIndex("by_collectionId", (q) => q.eq("collectionId", collection._id))
+        .collect();
+      summaries.push({ _id: collection._id, name: collection.name, files: files.length });
+    }
+    return summaries.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Create a collection
+ *
+ * @param name - Name of the collection, unique per user
+ *
+ * @returns The ID of the new collection
+ *
+ * @throws Error if the name is empty, too long or already taken
+ *
+ * @example
+ * ```typescript
+ * const collectionId = await createCollection({ name: "Safety manual" });
+ * ```
+ */
+export const create = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const name = await validateName(ctx, userId, args.name);
+    return await ctx.db.insert("collections", { userId, name });
+  },
+});
+
+/**
+ * Rename one of the caller's collections
+ *
+ * @param collectionId - The collection
+ * @param name - New name, unique per user
+ *
+ * @throws Error if the collection does not belong to the caller, or the name
+ *   is empty, too long or already taken
+ */
+export const rename = mutation({
+  args: { collectionId: v.id("collections"), name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    await requireCollection(ctx, userId, args.collectionId);
+    const name = await validateName(ctx, userId, args.name, args.collectionId);
+    await ctx.db.patch(args.collectionId, { name });
+  },
+});
+
+/**
+ * Delete one of the caller's collections
+ *
+ * The files in it are kept and no longer belong to any collection.
+ *
+ * @param collectionId - The collection
+ *
+ * @returns The number of files that were in the collection
+ *
+ * @throws Error if the collection does not belong to the caller
+ */
+export const remove = mutation({
+  args: { collectionId: v.id("collections") },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    await requireCollection(ctx, userId, args.collectionId);
+
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_collectionId", (q) => q.eq("collectionId", args.collectionId))
+      .collect();
+    for (const file of files) {
+      await setFileCollection(ctx, file, undefined);
+    }
+    await ctx.db.delete(args.collectionId);
+    return { files: files.length };
+  },
+});
+
+/**
+ * Assign one of the caller's files to a collection
+ *
+ * @param fileId - The file
+ * @param collectionId - Target collection, or null to remove the file from
+ *   its collection
+ *
+ * @throws Error if the file or collection does not belong to the caller
+ *
+ * @example
+ * ```typescript
+ * await assignFile({ fileId, collectionId });
+ * ```
+ */
+export const assignFile = mutation({
+  args: {
+    fileId: v.id("files"),
+    collectionId: v.union(v.id("collections"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const file = await ctx.db.get(args.fileId);
+    if (file === null || file.userId !== userId) {
+      throw new Error("File not found");
+    }
+    if (args.collectionId !== null) {
+      await requireCollection(ctx, userId, args.collectionId);
+    }
+    await setFileCollection(ctx, file, args.collectionId ?? undefined);
+  },
+});
+
+/**
+ * Copy a file's collection onto its chunks in batches
+ *
+ * Walks every chunk of every version of the file, SYNC_BATCH_SIZE at a time,
+ * and reschedules itself until the end is reached. Chunks inserted meanwhile
+ * already get the new collection (see ingestion.storeChunks).
+ *
+ * @param fileId - The file whose collection changed
+ * @param cursor - Position to continue from, or null to start
+ */
+export const syncChunks = internalMutation({
+  args: {
+    fileId: v.id("files"),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.fileId);
+    if (file === null) {
+      return;
+    }
+
+    const page = await ctx.db
+      .query("documents")
+      .withIndex("by_fileId_version_chunkIndex", (q) => q.eq("fileId", args.fileId))
+      .paginate({ cursor: args.cursor, numItems: SYNC_BATCH_SIZE });
+    for (const doc of page.page) {
+      if (doc.collectionId !== file.collectionId) {
+        await setChunkCollection(ctx, doc, file.collectionId);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.collections.syncChunks, {
+        fileId: args.fileId,
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
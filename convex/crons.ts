@@ -0,0 +1,10 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Drop cached embedding vectors that expired or belong to a previous model,
+// see embeddingCache.ts
+crons.interval("evict stale embeddings", { hours: 1 }, internal.embeddingCache.evictStale, {});
+
+export default crons;
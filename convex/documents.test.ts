@@ -0,0 +1,260 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { reciprocalRankFusion } from "./documents";
+import schema from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+const GYM_POLICY = "The gym opens at 6am on weekdays and closes at 10pm.";
+const PARKING_POLICY = "Visitors must park in the north lot and display a permit.";
+const PUMP_MANUAL = "Error E4012 means the pump inlet is blocked by debris.";
+
+describe("documents", () => {
+  test("rejects unauthenticated callers", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(t.query(api.documents.getAllFiles, {})).rejects.toThrow("Not authenticated");
+    await expect(
+      t.action(api.documents.vectorSearch, { query: "gym hours" })
+    ).rejects.toThrow("Not authenticated");
+  });
+
+  test("lists only the caller's files", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+
+    await alice.asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: GYM_POLICY,
+    });
+    await bob.asUser.action(api.ragActions.embedDocument, {
+      fileName: "parking.txt",
+      content: PARKING_POLICY,
+    });
+
+    const aliceFiles = await alice.asUser.query(api.documents.getAllFiles, {});
+    expect(aliceFiles.map((file) => file.fileName)).toEqual(["gym.txt"]);
+
+    const bobDocs = await bob.asUser.query(api.documents.getAllDocuments, {});
+    expect(bobDocs.map((doc) => doc.text)).toEqual([PARKING_POLICY]);
+  });
+
+  test("vector search never returns another user's chunks", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+
+    await alice.asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: GYM_POLICY,
+    });
+
+    const aliceResults = await alice.asUser.action(api.documents.vectorSearch, {
+      query: "When does the gym open?",
+    });
+    expect(aliceResults).toHaveLength(1);
+
+    const bobResults = await bob.asUser.action(api.documents.vectorSearch, {
+      query: "When does the gym open?",
+    });
+    expect(bobResults).toEqual([]);
+  });
+
+  test("vector search filters by file name", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+
+    const results = await asUser.action(api.documents.vectorSearch, {
+      query: "gym opening hours",
+      fileName: "parking.txt",
+    });
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "parking.txt" });
+
+    expect(results.map((result) => result._id)).toEqual(docs.map((doc) => doc._id));
+  });
+
+  test("search filters by the union of several file names", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "pump.txt", content: PUMP_MANUAL });
+    const pumpDocs = await asUser.query(api.documents.getByFileName, { fileName: "pump.txt" });
+
+    for (const mode of ["vector", "keyword", "hybrid"] as const) {
+      const results = await asUser.action(api.documents.search, {
+        query: "the pump and the gym",
+        fileNames: ["gym.txt", "parking.txt"],
+        mode,
+      });
+      const docs = await t.run(async (ctx) => Promise.all(results.map((result) => ctx.db.get(result._id))));
+      expect(docs.length).toBeGreaterThan(0);
+      expect(docs.every((doc) => doc?.metadata.fileName !== "pump.txt")).toBe(true);
+    }
+    const vectorResults = await asUser.action(api.documents.vectorSearch, {
+      query: "pump error",
+      fileName: "pump.txt",
+      fileNames: ["gym.txt"],
+    });
+    expect(vectorResults.map((result) => result._id)).toContain(pumpDocs[0]._id);
+    expect(await asUser.action(api.documents.vectorSearch, { query: "pump error", fileNames: [] })).toEqual([]);
+  });
+
+  test("keyword search finds exact terms in the caller's chunks", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "pump.txt", content: PUMP_MANUAL });
+    const [pumpChunk] = await alice.asUser.query(api.documents.getByFileName, { fileName: "pump.txt" });
+
+    const results = await alice.asUser.action(api.documents.search, { query: "E4012", mode: "keyword" });
+    expect(results.map((result) => result._id)).toEqual([pumpChunk._id]);
+
+    expect(await bob.asUser.action(api.documents.search, { query: "E4012", mode: "keyword" })).toEqual([]);
+  });
+
+  test("keyword search over several files finds matches ranked below other files' hits", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "log.txt", content: "Pump E4012 logged." });
+    const [logChunk] = await asUser.query(api.documents.getByFileName, { fileName: "log.txt" });
+    await t.run(async (ctx) => {
+      const chunk = (await ctx.db.get(logChunk._id))!;
+      for (let i = 0; i < 1100; i++) {
+        await ctx.db.insert("documents", {
+          userId: chunk.userId,
+          fileId: chunk.fileId,
+          version: chunk.version,
+          userFileKey: chunk.userFileKey,
+          text: chunk.text,
+          metadata: { ...chunk.metadata, chunkIndex: i + 1 },
+        });
+      }
+    });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "pump.txt", content: PUMP_MANUAL });
+    const [pumpChunk] = await asUser.query(api.documents.getByFileName, { fileName: "pump.txt" });
+
+    const results = await asUser.action(api.documents.search, {
+      query: "E4012",
+      mode: "keyword",
+      fileNames: ["gym.txt", "pump.txt"],
+    });
+
+    expect(results.map((result) => result._id)).toEqual([pumpChunk._id]);
+  });
+
+  test("hybrid search ranks exact term matches first", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "pump.txt", content: PUMP_MANUAL });
+    const [pumpChunk] = await asUser.query(api.documents.getByFileName, { fileName: "pump.txt" });
+
+    const results = await asUser.action(api.documents.search, { query: "what does E4012 mean", limit: 1 });
+    expect(results.map((result) => result._id)).toEqual([pumpChunk._id]);
+  });
+
+  test("reciprocal rank fusion rewards chunks found by both searches", () => {
+    const [a, b, c] = ["a", "b", "c"] as Id<"documents">[];
+
+    const fused = reciprocalRankFusion([[{ _id: a }, { _id: b }], [{ _id: b }, { _id: c }]], 3);
+
+    expect(fused.map((result) => result._id)).toEqual([b, a, c]);
+    expect(fused[0]._score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  test("expands hits with their neighbouring chunks", async () => {
+    const t = convexTest(schema, modules);
+    const { userId, asUser } = await signInNewUser(t);
+    const paragraph = (i: number) => `Paragraph ${i}.`.padEnd(900, " filler") + ".";
+    await asUser.action(api.ragActions.embedDocument, {
+      fileName: "long.txt",
+      content: [0, 1, 2, 3, 4, 5].map(paragraph).join("\n\n"),
+    });
+    const chunks = await asUser.query(api.documents.getByFileName, { fileName: "long.txt" });
+    expect(chunks.map((chunk) => chunk.text)).toEqual([0, 1, 2, 3, 4, 5].map(paragraph));
+
+    const passages = await t.query(internal.documents.expandNeighbors, {
+      ids: [chunks[4]._id, chunks[0]._id, chunks[5]._id],
+      userId,
+    });
+
+    expect(passages.map((passage) => [passage._id, passage.text])).toEqual([
+      [chunks[4]._id, [3, 4, 5].map(paragraph).join("\n\n")],
+      [chunks[0]._id, [0, 1].map(paragraph).join("\n\n")],
+    ]);
+  });
+
+  test("rebuilds a file from its chunks without the overlaps", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+    const content = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} explains one more rule.`).join(" ");
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "rules.txt", content });
+    const [file] = await alice.asUser.query(api.documents.getAllFiles, {});
+
+    const document = await alice.asUser.query(api.documents.getDocument, { fileId: file.fileId });
+    expect(document).toMatchObject({ fileName: "rules.txt", version: 1 });
+    expect(document!.chunks.length).toBeGreaterThan(1);
+    expect(document!.chunks.map((chunk) => chunk.chunkIndex)).toEqual(document!.chunks.map((_, i) => i));
+    expect(document!.chunks.map((chunk) => chunk.text).join("")).toBe(content);
+    expect(document!.chunks[1].overlap).toBeGreaterThan(0);
+
+    await expect(bob.asUser.query(api.documents.getDocument, { fileId: file.fileId })).rejects.toThrow(
+      "File not found"
+    );
+  });
+
+  test("deleteByFileName only deletes the caller's file", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "policy.txt", content: GYM_POLICY });
+    await bob.asUser.action(api.ragActions.embedDocument, { fileName: "policy.txt", content: PARKING_POLICY });
+
+    const result = await bob.asUser.mutation(api.documents.deleteByFileName, { fileName: "policy.txt" });
+    expect(result).toEqual({ deleted: 1 });
+
+    expect(await bob.asUser.query(api.documents.getAllFiles, {})).toEqual([]);
+    expect(await alice.asUser.query(api.documents.getAllFiles, {})).toHaveLength(1);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+    const embeddings = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(embeddings.map((row) => row.userId)).toEqual([alice.userId]);
+  });
+
+  test("migrates embeddings stored on chunks into chunkEmbeddings", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    // Put the vector back on the chunk, as chunks were stored before the split
+    await t.run(async (ctx) => {
+      for (const row of await ctx.db.query("chunkEmbeddings").collect()) {
+        await ctx.db.patch(row.documentId, { embedding: row.embedding, embeddingModel: row.embeddingModel });
+        await ctx.db.delete(row._id);
+      }
+    });
+    expect(await asUser.action(api.documents.vectorSearch, { query: "gym hours" })).toEqual([]);
+
+    await t.mutation(internal.documents.migrateEmbeddings, { cursor: null });
+
+    expect(await asUser.action(api.documents.vectorSearch, { query: "gym hours" })).toHaveLength(1);
+    const [doc] = await t.run((ctx) => ctx.db.query("documents").collect());
+    expect(doc.embedding).toBeUndefined();
+  });
+});
@@ -3,66 +3,317 @@
  * 
  * This module provides Convex queries and mutations for managing document chunks
  * in the RAG (Retrieval-Augmented Generation) system. Documents are split into
- * chunks, embedded using Google's text-embedding model, and stored with metadata
- * for efficient vector similarity search.
+ * chunks, embedded by the configured embedding provider (see embeddings.ts),
+ * and stored with metadata for efficient vector similarity search.
+ * 
+ * A chunk's text and metadata live in `documents` and its embedding vector in
+ * `chunkEmbeddings`, which carries the vector index. Only search and
+ * ingestion touch the vectors; public queries return lightweight chunk views
+ * (see ChunkView), so clients never download 3072 floats per chunk. Once
+ * chunks have been switched to reduced vectors, search runs on the smaller
+ * `by_reduced_embedding` index instead (see embeddingMigration.ts).
+ * 
+ * Every chunk belongs to one version of a file (see files.ts). Queries and
+ * searches only return chunks of each file's active version, so chunks of a
+ * version that is still being ingested or is being replaced stay invisible.
+ * 
+ * Chunks can be searched by meaning (vector index), by exact terms such as
+ * error codes or names (full-text index), or both at once (hybrid search,
+ * which fuses the two rankings with reciprocal rank fusion). Searches can be
+ * scoped to a single file or to a collection of files (see collections.ts).
  * 
  * @module documents
  */
 
-import { v } from "convex/values";
-import { mutation, query, internalQuery, action } from "./_generated/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { v, Infer } from "convex/values";
+import { Auth } from "convex/server";
+import {
+  mutation,
+  query,
+  internalQuery,
+  internalMutation,
+  action,
+  ActionCtx,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { embedQuery } from "./embeddingCache";
+import { reduceEmbedding } from "./embeddings";
+import { chunkVectors, usesReducedEmbeddings } from "./embeddingMigration";
+import { deleteFile, getFileByName, requirePendingUpload } from "./files";
+import { chunkMetadata } from "./schema";
+import {
+  ChunkText,
+  formatHeadingPath,
+  formatPageRange,
+  formatTimestamp,
+  mergeChunkTexts,
+  splitChunkOverlaps,
+} from "./chunking";
 
 /**
- * Generate embeddings for text using Google's embedding model
+ * How many more candidates vector search fetches than it returns
  * 
- * Uses the gemini-embedding-001 model to convert text into a 3072-dimensional
- * vector representation. This is used for both document chunks and user queries
- * to enable semantic similarity search.
+ * Candidates from inactive versions are dropped after the search, and while
+ * a file is re-uploaded its old and new chunks are near-duplicates, so twice
+ * the limit leaves room for both.
+ */
+const SEARCH_OVERFETCH = 2;
+
+/**
+ * Rank offset of reciprocal rank fusion
  * 
- * @param text - The text to embed
- * @returns Promise resolving to a 3072-dimensional embedding vector
+ * A chunk's hybrid score is the sum of 1 / (RRF_K + rank) over both result
+ * lists. 60 is the value from the original RRF paper; it keeps a single top
+ * rank in one list from outweighing good ranks in both.
+ */
+const RRF_K = 60;
+
+/**
+ * Number of neighbouring chunks on each side added to a hit by expandNeighbors
+ */
+const NEIGHBOR_RADIUS = 1;
+
+/**
+ * Convex full-text search matches at most this many query terms
+ */
+const MAX_SEARCH_TERMS = 16;
+
+/**
+ * Most files a single search can be limited to
+ * 
+ * Each file becomes one clause of the vector filter, and Convex caps the
+ * number of clauses in a filter expression.
+ */
+const MAX_FILTER_FILES = 64;
+
+/**
+ * Number of chunks moved per scheduled migrateEmbeddings run
+ */
+const MIGRATE_BATCH_SIZE = 100;
+
+/**
+ * How chunks are retrieved: by embedding similarity, by matching terms, or
+ * both fused into one ranking
+ */
+export const searchMode = v.union(v.literal("vector"), v.literal("keyword"), v.literal("hybrid"));
+export type SearchMode = Infer<typeof searchMode>;
+
+type SearchResult = { _id: Id<"documents">; _score: number };
+
+/**
+ * Files and collection a search is limited to; unset fields do not limit it
+ */
+type SearchScope = { fileNames?: string[]; collectionId?: Id<"collections"> };
+
+/**
+ * Combine the `fileName` and `fileNames` arguments of a search
  * 
- * @throws Error if the Google API key is invalid or the API request fails
+ * @param fileName - Single file to search, kept for existing callers
+ * @param fileNames - Files to search
+ * @returns The union of both without duplicates, or undefined when neither
+ *   is given
  * 
- * @example
- * ```typescript
- * const embedding = await generateEmbedding("What are the gym hours?");
- * console.log(embedding.length); // 3072
- * ```
+ * @throws Error if more than MAX_FILTER_FILES files are given
  */
-export async function generateEmbedding(text: string, maxRetries: number = 5): Promise<number[]> {
-  const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-  const model = genAI.getGenerativeModel({ model: "gemini-embedding-001" });
-  
-  let lastError: Error | null = null;
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const result = await model.embedContent(text);
-      return result.embedding.values;
-    } catch (error: any) {
-      lastError = error;
-      
-      // Check if it's a rate limit error (429)
-      const isRateLimitError = error?.message?.includes('429') || 
-                               error?.message?.includes('quota') ||
-                               error?.message?.includes('rate limit');
-      
-      if (isRateLimitError && attempt < maxRetries - 1) {
-        // Exponential backoff: 2^attempt seconds (1s, 2s, 4s, 8s, 16s)
-        const delayMs = Math.pow(2, attempt) * 1000;
-        console.log(`⏳ Rate limit hit. Retrying in ${delayMs / 1000}s... (attempt ${attempt + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-      } else if (!isRateLimitError) {
-        // If it's not a rate limit error, throw immediately
-        throw error;
-      }
+function fileFilter(fileName?: string, fileNames?: string[]): string[] | undefined {
+  if (fileName === undefined && fileNames === undefined) {
+    return undefined;
+  }
+  const names = [...new Set([...(fileName !== undefined ? [fileName] : []), ...(fileNames ?? [])])];
+  if (names.length > MAX_FILTER_FILES) {
+    throw new Error(`A search can be limited to at most ${MAX_FILTER_FILES} files`);
+  }
+  return names;
+}
+
+/**
+ * Resolve the signed-in user or fail
+ * 
+ * Every document query, mutation and action is scoped to the caller, so
+ * anonymous access is rejected up front instead of returning an empty result.
+ * 
+ * @param ctx - Any Convex context with an `auth` property
+ * @returns The ID of the authenticated user
+ * 
+ * @throws Error if the caller is not signed in
+ */
+export async function requireUserId(ctx: { auth: Auth }): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (userId === null) {
+    throw new Error("Not authenticated");
+  }
+  return userId;
+}
+
+/**
+ * Load the chunks of a file's active version
+ * 
+ * @param ctx - Query context
+ * @param file - The file, or null
+ * @returns The active version's chunks, or an empty array
+ */
+async function getActiveChunks(ctx: QueryCtx, file: Doc<"files"> | null): Promise<Doc<"documents">[]> {
+  if (file === null || file.activeVersion === undefined) {
+    return [];
+  }
+  return await ctx.db
+    .query("documents")
+    .withIndex("by_fileId_version_chunkIndex", (q) =>
+      q.eq("fileId", file._id).eq("version", file.activeVersion!)
+    )
+    .collect();
+}
+
+/**
+ * Keep only chunks that belong to their file's active version and, when a
+ * collection is given, to a file that is currently in that collection
+ * 
+ * The collection is checked on the file rather than on the chunk, because
+ * chunks of a moved file still carry the old collection until
+ * collections.syncChunks has updated them.
+ * 
+ * @param ctx - Query context
+ * @param docs - Candidate chunks
+ * @param scope - Owner the chunks must belong to and optional collection
+ * @returns The chunks in scope, in input order
+ */
+async function keepActive(
+  ctx: QueryCtx,
+  docs: Doc<"documents">[],
+  scope: { userId: Id<"users">; collectionId?: Id<"collections"> }
+): Promise<Doc<"documents">[]> {
+  const files = new Map<Id<"files">, Doc<"files"> | null>();
+  const results = [];
+  for (const doc of docs) {
+    if (!files.has(doc.fileId)) {
+      files.set(doc.fileId, await ctx.db.get(doc.fileId));
+    }
+    const file = files.get(doc.fileId);
+    if (
+      file &&
+      file.userId === scope.userId &&
+      file.activeVersion === doc.version &&
+      (scope.collectionId === undefined || file.collectionId === scope.collectionId)
+    ) {
+      results.push(doc);
     }
   }
-  
-  // If all retries failed, throw the last error
-  throw lastError || new Error('Failed to generate embedding after retries');
+  return results;
+}
+
+/**
+ * Build the combined owner + file key stored on every chunk
+ * 
+ * Convex vector filters only support equality on a single field, so scoping
+ * a search to one user's file requires both values in one field.
+ * 
+ * @param userId - Owner of the file
+ * @param fileName - Name of the file
+ * @returns The `userFileKey` value for the chunk
+ */
+export function userFileKey(userId: Id<"users">, fileName: string): string {
+  return `${userId}:${fileName}`;
+}
+
+/**
+ * A chunk as returned by public queries: text, metadata and the file version
+ * it belongs to, without owner keys or embedding
+ */
+export type ChunkView = Pick<
+  Doc<"documents">,
+  "_id" | "_creationTime" | "fileId" | "version" | "collectionId" | "text" | "metadata"
+>;
+
+function toChunkView(doc: Doc<"documents">): ChunkView {
+  return {
+    _id: doc._id,
+    _creationTime: doc._creationTime,
+    fileId: doc.fileId,
+    version: doc.version,
+    collectionId: doc.collectionId,
+    text: doc.text,
+    metadata: doc.metadata,
+  };
+}
+
+// What chunking.splitChunkOverlaps needs to know about a stored chunk
+function chunkText(doc: Doc<"documents">): ChunkText {
+  return { text: doc.text, headingPath: doc.metadata.headingPath, overlap: doc.metadata.overlap };
+}
+
+/**
+ * Store a chunk and its embedding vector
+ * 
+ * The vector goes into `chunkEmbeddings` along with copies of the chunk's
+ * owner, file key and collection, which are the vector index filter fields.
+ * Depending on the embedding migration it is stored in full, reduced or both
+ * (see embeddingMigration.chunkVectors).
+ * 
+ * @param ctx - Mutation context
+ * @param chunk - The chunk without its embedding
+ * @param embedding - Embedding vector of the chunk
+ * @param embeddingModel - Model that produced the embedding
+ * @returns The ID of the inserted chunk
+ */
+export async function insertChunk(
+  ctx: MutationCtx,
+  chunk: Omit<Doc<"documents">, "_id" | "_creationTime" | "embedding" | "embeddingModel">,
+  embedding: number[],
+  embeddingModel: string
+): Promise<Id<"documents">> {
+  const documentId = await ctx.db.insert("documents", chunk);
+  await ctx.db.insert("chunkEmbeddings", {
+    documentId,
+    userId: chunk.userId,
+    userFileKey: chunk.userFileKey,
+    collectionId: chunk.collectionId,
+    ...(await chunkVectors(ctx, embedding)),
+    embeddingModel,
+  });
+  return documentId;
+}
+
+/**
+ * Delete a chunk together with its embedding vector
+ * 
+ * @param ctx - Mutation context
+ * @param doc - The chunk to delete
+ */
+export async function deleteChunk(ctx: MutationCtx, doc: Doc<"documents">): Promise<void> {
+  const embeddings = await ctx.db
+    .query("chunkEmbeddings")
+    .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+    .collect();
+  for (const embedding of embeddings) {
+    await ctx.db.delete(embedding._id);
+  }
+  await ctx.db.delete(doc._id);
+}
+
+/**
+ * Move a chunk and its embedding vector to another collection
+ * 
+ * @param ctx - Mutation context
+ * @param doc - The chunk
+ * @param collectionId - The new collection, or undefined for none
+ */
+export async function setChunkCollection(
+  ctx: MutationCtx,
+  doc: Doc<"documents">,
+  collectionId: Id<"collections"> | undefined
+): Promise<void> {
+  await ctx.db.patch(doc._id, { collectionId });
+  const embeddings = await ctx.db
+    .query("chunkEmbeddings")
+    .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+    .collect();
+  for (const embedding of embeddings) {
+    await ctx.db.patch(embedding._id, { collectionId });
+  }
 }
 
 /**
@@ -70,60 +321,157 @@ export async function generateEmbedding(text: string, maxRetries: number = 5): P
  * 
  * Inserts a single document chunk with its embedding vector and metadata.
  * This is typically called multiple times per document (once per chunk) by
- * the embedDocument action in ragActions.ts.
+ * the embedDocument action in ragActions.ts, which passes the ID of the
+ * authenticated user as the chunk owner.
  * 
+ * @param userId - Owner of the chunk
+ * @param fileId - File the chunk belongs to
+ * @param version - File version the chunk belongs to
  * @param text - The text content of the document chunk
- * @param embedding - 3072-dimensional embedding vector from Google's gemini-embedding-001 model
+ * @param embedding - 3072-dimensional embedding vector from the embedding provider
+ * @param embeddingModel - Model that produced the embedding (provider `model` id)
  * @param metadata - Document metadata including:
  *   - source: Original source identifier
  *   - fileName: Name of the uploaded file
  *   - uploadedAt: ISO timestamp of when the document was uploaded
  *   - chunkIndex: Zero-based index of this chunk within the document
  *   - totalChunks: Total number of chunks for this document
+ *   - headingPath: Titles of the enclosing headings, outermost first
+ *   - sectionTitle: Title of the innermost enclosing heading
+ *   - pageStart / pageEnd: Pages the chunk spans (paged documents only)
+ *   - startTime / endTime: Seconds of the recording the chunk covers (transcripts only)
  * 
  * @returns The ID of the inserted document
  * 
  * @example
  * ```typescript
- * await ctx.runMutation(api.documents.addDocument, {
+ * await ctx.runMutation(internal.documents.addDocument, {
+ *   userId,
+ *   fileId,
+ *   version: 1,
  *   text: "This is a chunk of text...",
  *   embedding: [0.123, 0.456, ...], // 3072 dimensions
+ *   embeddingModel: "google/gemini-embedding-001",
  *   metadata: {
  *     source: "document.txt",
  *     fileName: "document.txt",
  *     uploadedAt: "2026-01-16T10:00:00.000Z",
  *     chunkIndex: 0,
- *     totalChunks: 5
+ *     totalChunks: 5,
+ *     headingPath: ["Chapter 3", "Safety Rules"],
+ *     sectionTitle: "Safety Rules"
  *   }
  * });
  * ```
  */
-export const addDocument = mutation({
+export const addDocument = internalMutation({
   args: {
+    userId: v.id("users"),
+    fileId: v.id("files"),
+    version: v.number(),
     text: v.string(),
     embedding: v.array(v.float64()),
-    metadata: v.object({
-      source: v.string(),
-      fileName: v.string(),
-      uploadedAt: v.string(),
-      chunkIndex: v.number(),
-      totalChunks: v.number(),
-    }),
+    embeddingModel: v.string(),
+    metadata: chunkMetadata,
+  },
+  handler: async (ctx, args) => {
+    const { embedding, embeddingModel, ...chunk } = args;
+    const file = await ctx.db.get(args.fileId);
+    return await insertChunk(
+      ctx,
+      {
+        ...chunk,
+        userFileKey: userFileKey(args.userId, args.metadata.fileName),
+        collectionId: file?.collectionId,
+      },
+      embedding,
+      embeddingModel
+    );
+  },
+});
+
+/**
+ * Add several document chunks to the database in one transaction
+ * 
+ * Bulk variant of addDocument used by embedDocument, so a batch of embedded
+ * chunks costs a single mutation instead of one mutation per chunk.
+ * 
+ * @param userId - Owner of the chunks
+ * @param fileId - File the chunks belong to
+ * @param version - File version the chunks belong to
+ * @param embeddingModel - Model that produced the embeddings
+ * @param chunks - Chunks to insert, each with text, embedding and metadata
+ *   (same shape as the addDocument arguments)
+ * 
+ * @returns The IDs of the inserted documents, in input order
+ * 
+ * @throws Error if the version's upload was rolled back, see
+ *   files.requirePendingUpload
+ * 
+ * @example
+ * ```typescript
+ * await ctx.runMutation(internal.documents.addDocuments, {
+ *   userId,
+ *   fileId,
+ *   version: 1,
+ *   embeddingModel: "google/gemini-embedding-001",
+ *   chunks: [
+ *     { text: "First chunk...", embedding: [...], metadata: { ... } },
+ *     { text: "Second chunk...", embedding: [...], metadata: { ... } },
+ *   ],
+ * });
+ * ```
+ */
+export const addDocuments = internalMutation({
+  args: {
+    userId: v.id("users"),
+    fileId: v.id("files"),
+    version: v.number(),
+    embeddingModel: v.string(),
+    chunks: v.array(
+      v.object({
+        text: v.string(),
+        embedding: v.array(v.float64()),
+        metadata: chunkMetadata,
+      })
+    ),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("documents", args);
+    await requirePendingUpload(ctx, args.fileId, args.version);
+    const file = await ctx.db.get(args.fileId);
+    const ids = [];
+    for (const chunk of args.chunks) {
+      ids.push(
+        await insertChunk(
+          ctx,
+          {
+            userId: args.userId,
+            fileId: args.fileId,
+            version: args.version,
+            userFileKey: userFileKey(args.userId, chunk.metadata.fileName),
+            collectionId: file?.collectionId,
+            text: chunk.text,
+            metadata: chunk.metadata,
+          },
+          chunk.embedding,
+          args.embeddingModel
+        )
+      );
+    }
+    return ids;
   },
 });
 
 /**
  * Retrieve all chunks for a specific file
  * 
- * Queries all document chunks that belong to a specific file by fileName.
- * Uses the by_fileName index for efficient retrieval.
+ * Queries the chunks of the active version of a specific file of the
+ * authenticated user. Uses the by_fileId_version_chunkIndex index, so chunks
+ * come back in document order.
  * 
  * @param fileName - The name of the file to retrieve chunks for
  * 
- * @returns Array of document chunks with their text, embeddings, and metadata
+ * @returns Array of chunk views with their text and metadata
  * 
  * @example
  * ```typescript
@@ -136,12 +484,9 @@ export const addDocument = mutation({
 export const getByFileName = query({
   args: { fileName: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
-      .query("documents")
-      .withIndex("by_fileName", (q) => 
-        q.eq("metadata.fileName", args.fileName)
-      )
-      .collect();
+    const userId = await requireUserId(ctx);
+    const docs = await getActiveChunks(ctx, await getFileByName(ctx, userId, args.fileName));
+    return docs.map(toChunkView);
   },
 });
 
@@ -149,15 +494,17 @@ export const getByFileName = query({
  * Retrieve all documents or filter by fileName
  * 
  * Flexible query that can either:
- * - Return all document chunks in the database (if no fileName provided)
- * - Return chunks for a specific file (if fileName provided)
+ * - Return all of the caller's document chunks (if no fileName provided)
+ * - Return the caller's chunks for a specific file (if fileName provided)
+ * 
+ * Only chunks of each file's active version are returned.
  * 
  * This is the primary query used by the RAG chat action to retrieve
  * documents for vector similarity search.
  * 
  * @param fileName - Optional file name to filter by
  * 
- * @returns Array of document chunks with their text, embeddings, and metadata
+ * @returns Array of chunk views with their text and metadata
  * 
  * @example
  * ```typescript
@@ -175,29 +522,96 @@ export const getAllDocuments = query({
     fileName: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     if (args.fileName !== undefined) {
-      return await ctx.db
-        .query("documents")
-        .withIndex("by_fileName", (q) => 
-          q.eq("metadata.fileName", args.fileName!)
-        )
-        .collect();
+      const docs = await getActiveChunks(ctx, await getFileByName(ctx, userId, args.fileName));
+      return docs.map(toChunkView);
+    }
+    
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    const docs = [];
+    for (const file of files) {
+      docs.push(...(await getActiveChunks(ctx, file)));
+    }
+    return docs.map(toChunkView);
+  },
+});
+
+/**
+ * Rebuild one of the caller's files from its chunks, for the document viewer
+ * 
+ * Reads the active version's chunks in `chunkIndex` order. The overlap that
+ * splitting repeats at the start of a chunk, as recorded at chunking time, is
+ * cut off (see chunking.splitChunkOverlaps), so the segments read as the
+ * ingested text while each still shows where its chunk starts.
+ * 
+ * @param fileId - The file to rebuild
+ * 
+ * @returns null while the file has no active version, otherwise:
+ *   - fileId, fileName, version and contentType of the file
+ *   - chunks: one segment per chunk with its ID, chunkIndex, the section,
+ *     pages and timestamp it cites like ragChat sources, the number of
+ *     leading characters it shares with the chunk before (`overlap`) and the
+ *     rest of its text
+ * 
+ * @throws Error if the file does not belong to the caller
+ * 
+ * @example
+ * ```typescript
+ * const document = useQuery(api.documents.getDocument, { fileId });
+ * const text = document?.chunks.map((chunk) => chunk.text).join("");
+ * ```
+ */
+export const getDocument = query({
+  args: { fileId: v.id("files") },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const file = await ctx.db.get(args.fileId);
+    if (file === null || file.userId !== userId) {
+      throw new Error("File not found");
+    }
+    if (file.activeVersion === undefined) {
+      return null;
     }
     
-    return await ctx.db.query("documents").collect();
+    const docs = await getActiveChunks(ctx, file);
+    const segments = splitChunkOverlaps(docs.map(chunkText));
+    return {
+      fileId: file._id,
+      fileName: file.fileName,
+      version: file.activeVersion,
+      contentType: file.contentType,
+      chunks: docs.map((doc, i) => ({
+        _id: doc._id,
+        chunkIndex: doc.metadata.chunkIndex,
+        section: formatHeadingPath(doc.metadata.headingPath),
+        pages: formatPageRange(doc.metadata.pageStart, doc.metadata.pageEnd),
+        timestamp: doc.metadata.startTime !== undefined ? formatTimestamp(doc.metadata.startTime) : undefined,
+        overlap: segments[i].overlap,
+        text: segments[i].text,
+      })),
+    };
   },
 });
 
 /**
- * Delete all chunks for a specific file
+ * Delete a file with all of its versions
+ * 
+ * Removes all of the caller's document chunks, versions, ingestion jobs and
+ * stored uploads associated with a given fileName. Other users' files with
+ * the same name are never touched. Re-uploading an updated version does not
+ * need this: it replaces the old version automatically.
  * 
- * Removes all document chunks associated with a given fileName from the database.
- * This is useful for cleaning up when a user wants to remove a document or
- * re-upload an updated version.
+ * The file is excluded from search as soon as this returns; its chunks are
+ * deleted in the background while it is listed as "deleting" (see
+ * files.deleteFile).
  * 
  * @param fileName - The name of the file whose chunks should be deleted
  * 
- * @returns Object containing the number of chunks deleted
+ * @returns Object containing the number of chunks being deleted
  * 
  * @example
  * ```typescript
@@ -210,32 +624,31 @@ export const getAllDocuments = query({
 export const deleteByFileName = mutation({
   args: { fileName: v.string() },
   handler: async (ctx, args) => {
-    const docs = await ctx.db
-      .query("documents")
-      .withIndex("by_fileName", (q) =>
-        q.eq("metadata.fileName", args.fileName)
-      )
-      .collect();
-    
-    for (const doc of docs) {
-      await ctx.db.delete(doc._id);
+    const userId = await requireUserId(ctx);
+    const file = await getFileByName(ctx, userId, args.fileName);
+    if (file === null) {
+      return { deleted: 0 };
     }
     
-    return { deleted: docs.length };
+    return { deleted: await deleteFile(ctx, file) };
   },
 });
 
 /**
  * Get a summary of all uploaded files
  * 
- * Returns a deduplicated list of all files in the database with metadata
- * about each file including the number of chunks and upload timestamp.
- * This is useful for displaying a file list in the UI.
+ * Returns the caller's files that have an active version, with the number
+ * of chunks and upload timestamp from each file's listing summary, so only
+ * the `files` table is read. For large libraries, use the paginated
+ * files.listFiles instead.
  * 
  * @returns Array of file summaries, each containing:
+ *   - fileId: ID of the file, for listVersions and rollbackToVersion
  *   - fileName: Name of the file
- *   - chunks: Number of chunks for this file
- *   - uploadedAt: ISO timestamp of when the file was uploaded
+ *   - collectionId: Collection the file is assigned to, if any
+ *   - version: Active version number
+ *   - chunks: Number of chunks of the active version
+ *   - uploadedAt: ISO timestamp of the latest upload
  * 
  * @example
  * ```typescript
@@ -248,29 +661,108 @@ export const deleteByFileName = mutation({
 export const getAllFiles = query({
   args: {},
   handler: async (ctx) => {
-    const docs = await ctx.db.query("documents").collect();
-    const fileNames = new Set(docs.map(doc => doc.metadata.fileName));
-    return Array.from(fileNames).map(fileName => {
-      const fileDocs = docs.filter(d => d.metadata.fileName === fileName);
-      return {
-        fileName,
-        chunks: fileDocs.length,
-        uploadedAt: fileDocs[0]?.metadata.uploadedAt,
-      };
-    });
+    const userId = await requireUserId(ctx);
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    
+    return files
+      .filter((file) => file.activeVersion !== undefined)
+      .map((file) => ({
+        fileId: file._id,
+        fileName: file.fileName,
+        collectionId: file.collectionId,
+        version: file.activeVersion!,
+        chunks: file.totalChunks ?? 0,
+        uploadedAt: file.uploadedAt,
+      }));
   },
 });
 
+/**
+ * Run a vector search over the caller's chunks of active file versions
+ * 
+ * @param ctx - Action context
+ * @param userId - Owner of the chunks
+ * @param query - The text query to search for
+ * @param limit - Maximum number of results to return
+ * @param scope - Optional files and collection to filter results
+ * @returns Results with document IDs and similarity scores, best first
+ */
+async function runVectorSearch(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  query: string,
+  limit: number,
+  { fileNames, collectionId }: SearchScope = {}
+): Promise<SearchResult[]> {
+  if (fileNames?.length === 0) {
+    return [];
+  }
+  
+  const queryEmbedding = await embedQuery(ctx, userId, query);
+  const index = await ctx.runQuery(internal.embeddingMigration.vectorIndexInUse, {});
+  // The narrowest scope goes into the vector filter; a foreign collection's
+  // chunks are dropped again by resolveVectorHits
+  const hits = await ctx.vectorSearch("chunkEmbeddings", index, {
+    vector: index === "by_reduced_embedding" ? reduceEmbedding(queryEmbedding) : queryEmbedding,
+    limit: Math.min(limit * SEARCH_OVERFETCH, 256),
+    filter: (q) =>
+      fileNames
+        ? q.or(...fileNames.map((fileName) => q.eq("userFileKey", userFileKey(userId, fileName))))
+        : collectionId
+          ? q.eq("collectionId", collectionId)
+          : q.eq("userId", userId),
+  });
+  
+  const results: SearchResult[] = await ctx.runQuery(internal.documents.resolveVectorHits, {
+    hits,
+    userId,
+    collectionId,
+  });
+  return results.slice(0, limit);
+}
+
+/**
+ * Fuse several rankings with reciprocal rank fusion
+ * 
+ * @param rankings - Result lists, each ordered best first
+ * @param limit - Maximum number of results to return
+ * @returns Results ordered by their fused score, which is the sum of
+ *   1 / (RRF_K + rank) over the lists that contain them
+ */
+export function reciprocalRankFusion(
+  rankings: Array<Array<{ _id: Id<"documents"> }>>,
+  limit: number
+): SearchResult[] {
+  const scores = new Map<Id<"documents">, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((result, rank) => {
+      scores.set(result._id, (scores.get(result._id) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+  return [...scores]
+    .map(([_id, _score]) => ({ _id, _score }))
+    .sort((a, b) => b._score - a._score)
+    .slice(0, limit);
+}
+
 /**
  * Perform vector similarity search on documents
  * 
  * Searches for documents similar to the provided text query using
  * Convex's built-in vector search capabilities. Automatically generates
- * an embedding for the query text and optionally filters results by fileName.
+ * an embedding for the query text. Results are always limited to the caller's
+ * chunks of active file versions and optionally further filtered to a set of
+ * files or a collection.
  * 
  * @param query - The text query to search for
  * @param limit - Maximum number of results to return (default: 5)
  * @param fileName - Optional file name to filter results
+ * @param fileNames - Optional file names to filter results; combined with
+ *   `fileName`, chunks of any of the files are returned
+ * @param collectionId - Optional collection to filter results
  * 
  * @returns Array of search results with document IDs and similarity scores
  * 
@@ -288,19 +780,131 @@ export const vectorSearch = action({
     query: v.string(),
     limit: v.optional(v.number()),
     fileName: v.optional(v.string()),
+    fileNames: v.optional(v.array(v.string())),
+    collectionId: v.optional(v.id("collections")),
   },
-  handler: async (ctx, args) => {
-    const queryEmbedding = await generateEmbedding(args.query);
+  handler: async (ctx, args): Promise<SearchResult[]> => {
+    const userId = await requireUserId(ctx);
+    return await runVectorSearch(ctx, userId, args.query, args.limit ?? 5, {
+      fileNames: fileFilter(args.fileName, args.fileNames),
+      collectionId: args.collectionId,
+    });
+  },
+});
+
+/**
+ * Search the caller's chunks by meaning, by exact terms, or both
+ * 
+ * - vector: embedding similarity (see vectorSearch)
+ * - keyword: the full-text index on chunk text, which finds exact terms such
+ *   as error codes, SKUs or names that embeddings tend to blur
+ * - hybrid: runs both and fuses the rankings with reciprocal rank fusion
+ * 
+ * @param query - The text query to search for
+ * @param limit - Maximum number of results to return (default: 5)
+ * @param fileName - Optional file name to filter results
+ * @param fileNames - Optional file names to filter results, see vectorSearch
+ * @param collectionId - Optional collection to filter results
+ * @param mode - Search mode (default: "hybrid")
+ * 
+ * @returns Search results with document IDs and scores, best first. Scores
+ *   are cosine similarities for vector search and rank-based scores for
+ *   keyword and hybrid search, so they are only comparable within one mode.
+ * 
+ * @example
+ * ```typescript
+ * const results = await ctx.runAction(api.documents.search, {
+ *   query: "error E-4012",
+ *   mode: "hybrid",
+ * });
+ * ```
+ */
+export const search = action({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+    fileName: v.optional(v.string()),
+    fileNames: v.optional(v.array(v.string())),
+    collectionId: v.optional(v.id("collections")),
+    mode: v.optional(searchMode),
+  },
+  handler: async (ctx, args): Promise<SearchResult[]> => {
+    const userId = await requireUserId(ctx);
+    const limit = args.limit ?? 5;
+    const mode = args.mode ?? "hybrid";
+    const scope = { fileNames: fileFilter(args.fileName, args.fileNames), collectionId: args.collectionId };
+    
+    if (mode === "vector") {
+      return await runVectorSearch(ctx, userId, args.query, limit, scope);
+    }
     
-    const searchResults = await ctx.vectorSearch("documents", "by_embedding", {
-      vector: queryEmbedding,
-      limit: args.limit ?? 5,
-      ...(args.fileName && {
-        filter: (q) => q.eq("metadata.fileName", args.fileName!),
-      }),
+    const keywordIds: Id<"documents">[] = await ctx.runQuery(internal.documents.keywordSearch, {
+      query: args.query,
+      userId,
+      ...scope,
+      limit: mode === "hybrid" ? limit * SEARCH_OVERFETCH : limit,
     });
+    const keywordResults = keywordIds.map((_id) => ({ _id }));
+    if (mode === "keyword") {
+      return reciprocalRankFusion([keywordResults], limit);
+    }
     
-    return searchResults;
+    const vectorResults = await runVectorSearch(ctx, userId, args.query, limit * SEARCH_OVERFETCH, scope);
+    return reciprocalRankFusion([vectorResults, keywordResults], limit);
+  },
+});
+
+/**
+ * Full-text search over a user's chunks of active file versions
+ * 
+ * Search index filters only support equality, so a search limited to
+ * several files runs once per file and the rankings are merged with
+ * reciprocalRankFusion. Convex does not expose full-text scores, so each
+ * file's hits are ranked by their position in that file's results.
+ * 
+ * @param query - Search terms; only the first MAX_SEARCH_TERMS are used
+ * @param userId - Owner of the chunks
+ * @param fileNames - Optional file names to filter results, at most
+ *   MAX_FILTER_FILES
+ * @param collectionId - Optional collection to filter results
+ * @param limit - Maximum number of results to return
+ * @returns IDs of the matching chunks, most relevant first
+ */
+export const keywordSearch = internalQuery({
+  args: {
+    query: v.string(),
+    userId: v.id("users"),
+    fileNames: v.optional(v.array(v.string())),
+    collectionId: v.optional(v.id("collections")),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const terms = args.query.split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS).join(" ");
+    const fileNames = fileFilter(undefined, args.fileNames);
+    if (terms.length === 0 || fileNames?.length === 0) {
+      return [];
+    }
+    
+    const searchFile = (fileName?: string) =>
+      ctx.db
+        .query("documents")
+        .withSearchIndex("search_text", (q) => {
+          const search = q.search("text", terms).eq("userId", args.userId);
+          const inFile = fileName ? search.eq("userFileKey", userFileKey(args.userId, fileName)) : search;
+          return args.collectionId ? inFile.eq("collectionId", args.collectionId) : inFile;
+        })
+        .take(Math.min(args.limit * SEARCH_OVERFETCH, 1024));
+    
+    let candidates: Doc<"documents">[];
+    if (fileNames === undefined) {
+      candidates = await searchFile();
+    } else {
+      const rankings = await Promise.all(fileNames.map((fileName) => searchFile(fileName)));
+      const docs = new Map(rankings.flat().map((doc) => [doc._id, doc]));
+      candidates = reciprocalRankFusion(rankings, docs.size).map((result) => docs.get(result._id)!);
+    }
+    const active = await keepActive(ctx, candidates, { userId: args.userId, collectionId: args.collectionId });
+    return active.slice(0, args.limit).map((doc) => doc._id);
   },
 });
 
@@ -309,25 +913,28 @@ export const vectorSearch = action({
  * 
  * Internal query used to retrieve full document information after vector search.
  * Vector search returns only document IDs and scores, so this query fetches
- * the actual document content and metadata.
+ * the actual document content and metadata. Documents not owned by `userId`
+ * are dropped as a second line of defence against cross-tenant reads.
  * 
  * @param ids - Array of document IDs to fetch
+ * @param userId - Owner the documents must belong to
  * @returns Array of documents with their full content and metadata
  * 
  * @example
  * ```typescript
  * const docs = await ctx.runQuery(internal.documents.fetchResults, {
- *   ids: searchResults.map(r => r._id)
+ *   ids: searchResults.map(r => r._id),
+ *   userId,
  * });
  * ```
  */
 export const fetchResults = internalQuery({
-  args: { ids: v.array(v.id("documents")) },
+  args: { ids: v.array(v.id("documents")), userId: v.id("users") },
   handler: async (ctx, args) => {
     const results = [];
     for (const id of args.ids) {
       const doc = await ctx.db.get(id);
-      if (doc === null) {
+      if (doc === null || doc.userId !== args.userId) {
         continue;
       }
       results.push(doc);
@@ -335,3 +942,202 @@ export const fetchResults = internalQuery({
     return results;
   },
 });
+
+// Smallest / largest of the values that are set, for page and time ranges
+function minDefined(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
+
+function maxDefined(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? Math.max(...defined) : undefined;
+}
+
+/**
+ * Expand search hits with their neighbouring chunks (small-to-big retrieval)
+ * 
+ * Chunks are small so that search matches precisely, but a single chunk
+ * often stops mid-thought. Each hit N is widened to chunks N-1 to N+1 of the
+ * same file version, and their overlapping text is merged into one passage.
+ * Hits whose ranges touch are merged into a single passage, which takes the
+ * place of the first of them.
+ * 
+ * @param ids - Hit document IDs, best first
+ * @param userId - Owner the documents must belong to
+ * @param radius - Neighbours to add on each side (default: NEIGHBOR_RADIUS)
+ * @returns One document per passage, in hit order. Each is the first hit of
+ *   the passage with the merged text, and with its page and time range
+ *   widened to the whole passage.
+ */
+export const expandNeighbors = internalQuery({
+  args: {
+    ids: v.array(v.id("documents")),
+    userId: v.id("users"),
+    radius: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const radius = args.radius ?? NEIGHBOR_RADIUS;
+    const ranges: Array<{ hit: Doc<"documents">; from: number; to: number }> = [];
+    for (const id of args.ids) {
+      const hit = await ctx.db.get(id);
+      if (hit === null || hit.userId !== args.userId) {
+        continue;
+      }
+      const from = Math.max(0, hit.metadata.chunkIndex - radius);
+      const to = hit.metadata.chunkIndex + radius;
+      const touching = ranges.find(
+        (range) =>
+          range.hit.fileId === hit.fileId &&
+          range.hit.version === hit.version &&
+          from <= range.to + 1 &&
+          to >= range.from - 1
+      );
+      if (touching) {
+        touching.from = Math.min(touching.from, from);
+        touching.to = Math.max(touching.to, to);
+      } else {
+        ranges.push({ hit, from, to });
+      }
+    }
+    
+    const passages: Doc<"documents">[] = [];
+    for (const { hit, from, to } of ranges) {
+      const chunks = await ctx.db
+        .query("documents")
+        .withIndex("by_fileId_version_chunkIndex", (q) =>
+          q
+            .eq("fileId", hit.fileId)
+            .eq("version", hit.version)
+            .gte("metadata.chunkIndex", from)
+            .lte("metadata.chunkIndex", to)
+        )
+        .collect();
+      const metadata = chunks.map((chunk) => chunk.metadata);
+      passages.push({
+        ...hit,
+        text: mergeChunkTexts(chunks.map(chunkText)),
+        metadata: {
+          ...hit.metadata,
+          pageStart: minDefined(metadata.map((m) => m.pageStart)),
+          pageEnd: maxDefined(metadata.map((m) => m.pageEnd)),
+          startTime: minDefined(metadata.map((m) => m.startTime)),
+          endTime: maxDefined(metadata.map((m) => m.endTime)),
+        },
+      });
+    }
+    return passages;
+  },
+});
+
+/**
+ * Turn vector search hits into chunk results of active file versions
+ * 
+ * Internal query used by vector search: hits are `chunkEmbeddings` rows, and
+ * vector filters cannot express "active version" or combine owner and
+ * collection. Input order is preserved.
+ * 
+ * @param hits - Vector search hits with their similarity scores
+ * @param userId - Owner the documents must belong to
+ * @param collectionId - Optional collection the documents' files must be in
+ * @returns The chunk IDs and scores of hits from active versions in scope
+ */
+export const resolveVectorHits = internalQuery({
+  args: {
+    hits: v.array(v.object({ _id: v.id("chunkEmbeddings"), _score: v.number() })),
+    userId: v.id("users"),
+    collectionId: v.optional(v.id("collections")),
+  },
+  handler: async (ctx, args) => {
+    const docs = [];
+    const scores = new Map<Id<"documents">, number>();
+    for (const hit of args.hits) {
+      const embedding = await ctx.db.get(hit._id);
+      const doc = embedding && (await ctx.db.get(embedding.documentId));
+      if (doc) {
+        docs.push(doc);
+        scores.set(doc._id, hit._score);
+      }
+    }
+    const active = await keepActive(ctx, docs, args);
+    return active.map((doc) => ({ _id: doc._id, _score: scores.get(doc._id)! }));
+  },
+});
+
+/**
+ * Fetch the embedding vectors of chunks, for re-ranking
+ * 
+ * @param ids - Chunk IDs
+ * @param userId - Owner the chunks must belong to
+ * @returns One entry per chunk that belongs to `userId` and has a vector,
+ *   including the legacy `embedding` of chunks that were not migrated yet.
+ *   The vectors are reduced once search uses reduced vectors, so they are
+ *   all of one size.
+ */
+export const fetchEmbeddings = internalQuery({
+  args: { ids: v.array(v.id("documents")), userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const reduced = await usesReducedEmbeddings(ctx);
+    const results = [];
+    for (const documentId of args.ids) {
+      const row = await ctx.db
+        .query("chunkEmbeddings")
+        .withIndex("by_documentId", (q) => q.eq("documentId", documentId))
+        .first();
+      if (row !== null) {
+        const embedding = reduced ? row.reducedEmbedding : row.embedding;
+        if (row.userId === args.userId && embedding !== undefined) {
+          results.push({ documentId, embedding });
+        }
+        continue;
+      }
+      // Not migrated yet, see migrateEmbeddings
+      const doc = await ctx.db.get(documentId);
+      if (doc?.userId === args.userId && doc.embedding !== undefined) {
+        results.push({ documentId, embedding: reduced ? reduceEmbedding(doc.embedding) : doc.embedding });
+      }
+    }
+    return results;
+  },
+});
+
+/**
+ * Move the vectors of chunks stored before the split into chunkEmbeddings
+ * 
+ * Chunks that still carry an `embedding` are invisible to vector search
+ * until they are migrated. Walks the documents table MIGRATE_BATCH_SIZE rows
+ * at a time and reschedules itself until the end. Safe to run more than once.
+ * 
+ * @param cursor - Position to continue from, or null to start
+ * 
+ * @example
+ * ```bash
+ * npx convex run documents:migrateEmbeddings '{"cursor": null}'
+ * ```
+ */
+export const migrateEmbeddings = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("documents")
+      .paginate({ cursor: args.cursor, numItems: MIGRATE_BATCH_SIZE });
+    for (const doc of page.page) {
+      if (doc.embedding === undefined) {
+        continue;
+      }
+      await ctx.db.insert("chunkEmbeddings", {
+        documentId: doc._id,
+        userId: doc.userId,
+        userFileKey: doc.userFileKey,
+        collectionId: doc.collectionId,
+        ...(await chunkVectors(ctx, doc.embedding)),
+        embeddingModel: doc.embeddingModel,
+      });
+      await ctx.db.patch(doc._id, { embedding: undefined, embeddingModel: undefined });
+    }
+    
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.documents.migrateEmbeddings, { cursor: page.continueCursor });
+    }
+  },
+});
@@ -0,0 +1,150 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { hashText } from "./embeddingCache";
+import { getEmbeddingProvider } from "./embeddings";
+import schema, { EMBEDDING_DIMENSIONS } from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+// Paragraphs long enough to become one chunk each
+const paragraph = (topic: string) =>
+  Array.from({ length: 12 }, (_, i) => `Rule ${i} about the ${topic} applies to every visitor.`).join(" ");
+const HANDBOOK = ["gym", "parking", "kitchen", "library"].map(paragraph).join("\n\n");
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+// Count the texts sent to the embedding provider
+const spyOnProvider = () => {
+  const provider = getEmbeddingProvider();
+  return vi.spyOn(provider, "embed");
+};
+
+const embeddedTexts = (spy: ReturnType<typeof spyOnProvider>) =>
+  spy.mock.calls.reduce((total, [texts]) => total + texts.length, 0);
+
+describe("hashText", () => {
+  test("ignores whitespace differences but not case", async () => {
+    expect(await hashText("Wear a  helmet.\n")).toBe(await hashText("Wear a helmet."));
+    expect(await hashText("Wear a helmet.")).not.toBe(await hashText("wear a helmet."));
+  });
+});
+
+describe("embedding cache", () => {
+  test("re-uploading an edited document only embeds the changed chunks", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    const first = await asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+    expect(first.stats).toMatchObject({ cachedChunks: 0, cacheHitRate: 0 });
+
+    const spy = spyOnProvider();
+    const edited = HANDBOOK.replace("Rule 3 about the library", "Rule 3 about the reading room");
+    const second = await asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: edited });
+
+    const chunks = second.chunksCreated!;
+    expect(chunks).toBeGreaterThan(1);
+    expect(embeddedTexts(spy)).toBe(1);
+    expect(second.stats).toMatchObject({
+      cachedChunks: chunks - 1,
+      cacheHitRate: Math.round(((chunks - 1) / chunks) * 100) / 100,
+    });
+  });
+
+  test("cached vectors are not shared between users", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+    const result = await bob.asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+
+    expect(result.stats?.cachedChunks).toBe(0);
+  });
+
+  test("ingestion jobs record how many chunks came from the cache", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([HANDBOOK], { type: "text/plain" })));
+
+    const spy = spyOnProvider();
+    await asUser.mutation(api.ingestion.startIngestion, {
+      storageId,
+      fileName: "handbook copy.txt",
+      contentType: "text/plain",
+      size: HANDBOOK.length,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const [job] = await asUser.query(api.ingestion.listJobs, {});
+    expect(job).toMatchObject({ status: "done" });
+    expect(job.cachedChunks).toBe(job.totalChunks);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  test("deleting a file removes its cached vectors", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+    expect(await t.run((ctx) => ctx.db.query("embeddingCache").collect())).not.toEqual([]);
+
+    await asUser.mutation(api.documents.deleteByFileName, { fileName: "handbook.txt" });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await t.run((ctx) => ctx.db.query("embeddingCache").collect())).toEqual([]);
+  });
+
+  test("evicts entries that were not used for 30 days and entries of other models", async () => {
+    const t = convexTest(schema, modules);
+    const { userId, asUser } = await signInNewUser(t);
+    const day = 24 * 60 * 60 * 1000;
+    const cachedModels = async () =>
+      (await t.run((ctx) => ctx.db.query("embeddingCache").collect())).map((entry) => entry.embeddingModel);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+    const model = getEmbeddingProvider().model;
+    await t.run((ctx) =>
+      ctx.db.insert("embeddingCache", {
+        userId,
+        textHash: "legacy",
+        embeddingModel: "legacy/model",
+        embedding: new Array(EMBEDDING_DIMENSIONS).fill(0.1),
+        expiresAt: Date.now() + 30 * day,
+      })
+    );
+
+    // Reusing the vectors after 20 days keeps them for another 30
+    vi.setSystemTime(Date.now() + 20 * day);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "handbook copy.txt", content: HANDBOOK });
+    vi.setSystemTime(Date.now() + 20 * day);
+    await t.mutation(internal.embeddingCache.evictStale, {});
+    const kept = await cachedModels();
+    expect(kept.length).toBeGreaterThan(0);
+    expect(kept.every((embeddingModel) => embeddingModel === model)).toBe(true);
+
+    vi.setSystemTime(Date.now() + 11 * day);
+    await t.mutation(internal.embeddingCache.evictStale, {});
+    expect(await cachedModels()).toEqual([]);
+  });
+
+  test("query vectors are only cached for a day", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "handbook.txt", content: HANDBOOK });
+    const countEntries = async () => (await t.run((ctx) => ctx.db.query("embeddingCache").collect())).length;
+    const chunkEntries = await countEntries();
+
+    await asUser.action(api.documents.vectorSearch, { query: "where can visitors park?" });
+    expect(await countEntries()).toBe(chunkEntries + 1);
+
+    vi.setSystemTime(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    await t.mutation(internal.embeddingCache.evictStale, {});
+    expect(await countEntries()).toBe(chunkEntries);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Embedding Cache Module
+ *
+ * Re-uploading a lightly edited document produces mostly the same chunks as
+ * the version before. Every vector the embedding provider returns is cached,
+ * keyed by the SHA-256 of the normalized text that was embedded plus the
+ * provider model, so only new or changed chunks are sent to the provider.
+ * That saves cost and keeps re-uploads clear of the provider's rate limits.
+ *
+ * Search queries go through the same cache (see embedQuery), so a question
+ * asked again is not embedded again either. Most questions are only asked
+ * once, so their entries are kept for QUERY_TTL_MS only.
+ *
+ * Normalization only folds Unicode forms and whitespace, which does not
+ * change what a chunk means; case and punctuation are kept. Entries belong to
+ * one user, so hit rates never reveal what other users have uploaded.
+ *
+ * Chunk vectors are kept for CACHE_TTL_MS after they were last used. Expired
+ * entries and entries of models other than the current provider model are
+ * evicted by evictStale, which runs every hour (see crons.ts). Deleting a
+ * file removes the cached vectors of its chunks right away (see
+ * forgetEmbedding).
+ *
+ * @module embeddingCache
+ */
+
+import { v } from "convex/values";
+import { internalMutation, ActionCtx, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { generateEmbeddings, getEmbeddingProvider } from "./embeddings";
+import { embeddingText } from "./chunking";
+
+/**
+ * How long a cached vector is kept after it was last used
+ */
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a cached query vector is kept after it was last used, as long as
+ * answers are cached (see answerCache.ts)
+ */
+const QUERY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum time between two extensions of an entry's expiry, so that cache
+ * hits do not rewrite the entry every time
+ */
+const EXTEND_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Number of entries deleted per scheduled evictStale run
+ */
+const EVICT_BATCH_SIZE = 200;
+
+/**
+ * Normalize text before it is hashed for the cache
+ *
+ * @param text - Text as sent to the embedding provider
+ * @returns The text in NFC form with runs of whitespace collapsed to a
+ *   single space and no leading or trailing whitespace
+ */
+export function normalizeText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Hash the normalized form of a text
+ *
+ * @param text - Text as sent to the embedding provider
+ * @returns Hex-encoded SHA-256 of normalizeText(text)
+ */
+export async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalizeText(text)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Look up cached vectors
+ *
+ * Hits are kept for at least another `ttlMs`.
+ *
+ * @param userId - Owner of the cache entries
+ * @param embeddingModel - Model the vectors must come from
+ * @param textHashes - Hashes of the texts, see hashText
+ * @param ttlMs - How long the entries are kept from now
+ * @returns One entry per hash: the cached vector, or null on a miss
+ */
+export const lookup = internalMutation({
+  args: {
+    userId: v.id("users"),
+    embeddingModel: v.string(),
+    textHashes: v.array(v.string()),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const expiresAt = Date.now() + args.ttlMs;
+    const results: Array<number[] | null> = [];
+    for (const textHash of args.textHashes) {
+      const entry = await ctx.db
+        .query("embeddingCache")
+        .withIndex("by_userId_textHash_embeddingModel", (q) =>
+          q.eq("userId", args.userId).eq("textHash", textHash).eq("embeddingModel", args.embeddingModel)
+        )
+        .first();
+      if (entry !== null && entry.expiresAt < expiresAt - EXTEND_INTERVAL_MS) {
+        await ctx.db.patch(entry._id, { expiresAt });
+      }
+      results.push(entry?.embedding ?? null);
+    }
+    return results;
+  },
+});
+
+/**
+ * Cache freshly embedded vectors
+ *
+ * Entries that already exist, e.g. because another upload embedded the same
+ * text meanwhile, are left alone.
+ *
+ * @param userId - Owner of the cache entries
+ * @param embeddingModel - Model that produced the vectors
+ * @param entries - Text hashes with their vectors
+ * @param ttlMs - How long the entries are kept from now
+ */
+export const store = internalMutation({
+  args: {
+    userId: v.id("users"),
+    embeddingModel: v.string(),
+    entries: v.array(v.object({ textHash: v.string(), embedding: v.array(v.float64()) })),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const expiresAt = Date.now() + args.ttlMs;
+    for (const { textHash, embedding } of args.entries) {
+      const existing = await ctx.db
+        .query("embeddingCache")
+        .withIndex("by_userId_textHash_embeddingModel", (q) =>
+          q.eq("userId", args.userId).eq("textHash", textHash).eq("embeddingModel", args.embeddingModel)
+        )
+        .first();
+      if (existing === null) {
+        await ctx.db.insert("embeddingCache", {
+          userId: args.userId,
+          embeddingModel: args.embeddingModel,
+          textHash,
+          embedding,
+          expiresAt,
+        });
+      }
+    }
+  },
+});
+
+/**
+ * Delete expired cache entries and entries of other models
+ *
+ * Vectors of a model other than the current provider model are never served
+ * again, so they are evicted as soon as the provider changes. Each run deletes
+ * up to EVICT_BATCH_SIZE entries and reschedules itself until none are left.
+ *
+ * @example
+ * ```bash
+ * npx convex run embeddingCache:evictStale
+ * ```
+ */
+export const evictStale = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const model = getEmbeddingProvider().model;
+    const stale = await ctx.db
+      .query("embeddingCache")
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", Date.now()))
+      .take(EVICT_BATCH_SIZE);
+    for (const otherModels of [
+      ctx.db.query("embeddingCache").withIndex("by_embeddingModel", (q) => q.lt("embeddingModel", model)),
+      ctx.db.query("embeddingCache").withIndex("by_embeddingModel", (q) => q.gt("embeddingModel", model)),
+    ]) {
+      if (stale.length < EVICT_BATCH_SIZE) {
+        stale.push(...(await otherModels.take(EVICT_BATCH_SIZE - stale.length)));
+      }
+    }
+
+    const ids = new Set(stale.map((entry) => entry._id));
+    for (const id of ids) {
+      await ctx.db.delete(id);
+    }
+    if (stale.length === EVICT_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.embeddingCache.evictStale, {});
+    }
+    if (ids.size > 0) {
+      console.log(`🧹 Evicted ${ids.size} cached embeddings`);
+    }
+  },
+});
+
+/**
+ * Delete the cached vectors of a chunk, for every model
+ *
+ * Called for every chunk of a deleted file, so the file's content does not
+ * outlive it in the cache. Another file of the same user with a chunk of the
+ * same text only loses its cache hit.
+ *
+ * @param ctx - Mutation context
+ * @param doc - The chunk being deleted
+ */
+export async function forgetEmbedding(ctx: MutationCtx, doc: Doc<"documents">): Promise<void> {
+  const textHash = await hashText(embeddingText({ text: doc.text, headingPath: doc.metadata.headingPath ?? [] }));
+  const entries = await ctx.db
+    .query("embeddingCache")
+    .withIndex("by_userId_textHash_embeddingModel", (q) => q.eq("userId", doc.userId).eq("textHash", textHash))
+    .collect();
+  for (const entry of entries) {
+    await ctx.db.delete(entry._id);
+  }
+}
+
+/**
+ * Embed texts, reusing cached vectors
+ *
+ * Texts whose normalized form is cached for the current provider model are
+ * not sent to the provider, and neither are repeats within `texts`. The rest
+ * are embedded in one generateEmbeddings call and added to the cache.
+ *
+ * @param ctx - Action context
+ * @param userId - Owner of the cache entries
+ * @param texts - Texts to embed
+ * @param ttlMs - How long the vectors are cached after this use (default:
+ *   CACHE_TTL_MS)
+ * @returns The vectors in the same order as `texts`, the number of texts
+ *   served without asking the provider, and the number that were embedded
+ *
+ * @example
+ * ```typescript
+ * const { embeddings, cacheHits } = await embedWithCache(ctx, userId, batch.map(embeddingText));
+ * ```
+ */
+export async function embedWithCache(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  texts: string[],
+  ttlMs: number = CACHE_TTL_MS
+): Promise<{ embeddings: number[][]; cacheHits: number; embedded: number }> {
+  const embeddingModel = getEmbeddingProvider().model;
+  const textHashes = await Promise.all(texts.map(hashText));
+  const cached: Array<number[] | null> = await ctx.runMutation(internal.embeddingCache.lookup, {
+    userId,
+    embeddingModel,
+    textHashes,
+    ttlMs,
+  });
+
+  // First text of every hash that missed the cache
+  const missing = new Map<string, string>();
+  textHashes.forEach((textHash, i) => {
+    if (cached[i] === null && !missing.has(textHash)) {
+      missing.set(textHash, texts[i]);
+    }
+  });
+
+  const vectors = new Map<string, number[]>();
+  if (missing.size > 0) {
+    const fresh = await generateEmbeddings([...missing.values()]);
+    const entries = [...missing.keys()].map((textHash, i) => ({ textHash, embedding: fresh[i] }));
+    for (const { textHash, embedding } of entries) {
+      vectors.set(textHash, embedding);
+    }
+    await ctx.runMutation(internal.embeddingCache.store, { userId, embeddingModel, entries, ttlMs });
+  }
+
+  return {
+    embeddings: textHashes.map((textHash, i) => cached[i] ?? vectors.get(textHash)!),
+    cacheHits: texts.length - missing.size,
+    embedded: missing.size,
+  };
+}
+
+/**
+ * Embed a search query, reusing its cached vector
+ *
+ * The vector is cached for QUERY_TTL_MS after its last use.
+ *
+ * @param ctx - Action context
+ * @param userId - The searching user
+ * @param query - The query text
+ * @returns The query's embedding vector
+ */
+export async function embedQuery(ctx: ActionCtx, userId: Id<"users">, query: string): Promise<number[]> {
+  const { embeddings } = await embedWithCache(ctx, userId, [query], QUERY_TTL_MS);
+  return embeddings[0];
+}
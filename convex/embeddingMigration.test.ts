@@ -0,0 +1,136 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema, { EMBEDDING_DIMENSIONS, REDUCED_EMBEDDING_DIMENSIONS } from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+const GYM_POLICY = "The gym opens at 6am on weekdays and closes at 10pm.";
+const PARKING_POLICY = "Visitors must park in the north lot and display a permit.";
+const KITCHEN_POLICY = "Label your food before putting it in the shared kitchen fridge.";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("embedding migration", () => {
+  test("search keeps working while chunks switch to reduced vectors", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    const [parking] = await asUser.query(api.documents.getByFileName, { fileName: "parking.txt" });
+    const topHit = async (query: string) =>
+      (await asUser.action(api.documents.vectorSearch, { query, limit: 1 }))[0]?._id;
+
+    // Backfilling: search stays on the full index, which covers every chunk
+    await t.mutation(internal.embeddingMigration.startMigration, {});
+    expect(await t.query(internal.embeddingMigration.vectorIndexInUse, {})).toBe("by_embedding");
+    expect(await topHit("where do visitors park")).toBe(parking._id);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.query(internal.embeddingMigration.vectorIndexInUse, {})).toBe("by_reduced_embedding");
+    expect(await topHit("where do visitors park")).toBe(parking._id);
+
+    // New chunks are found in the reduced index right away
+    await asUser.action(api.ragActions.embedDocument, { fileName: "kitchen.txt", content: KITCHEN_POLICY });
+    const [kitchen] = await asUser.query(api.documents.getByFileName, { fileName: "kitchen.txt" });
+    expect(await topHit("label your food before putting it in the fridge")).toBe(kitchen._id);
+
+    const rows = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(rows.map((row) => row.reducedEmbedding?.length)).toEqual([
+      REDUCED_EMBEDDING_DIMENSIONS,
+      REDUCED_EMBEDDING_DIMENSIONS,
+      REDUCED_EMBEDDING_DIMENSIONS,
+    ]);
+    expect(rows.map((row) => row.embedding?.length)).toEqual([
+      EMBEDDING_DIMENSIONS,
+      EMBEDDING_DIMENSIONS,
+      EMBEDDING_DIMENSIONS,
+    ]);
+  });
+
+  test("chunks embedded by another model are embedded again", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    const [legacy, current] = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    const stale = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    stale[0] = 1;
+    await t.run((ctx) => ctx.db.patch(legacy._id, { embedding: stale, embeddingModel: "legacy/model" }));
+
+    await t.mutation(internal.embeddingMigration.startMigration, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const migration = await t.run((ctx) => ctx.db.query("embeddingMigrations").unique());
+    expect(migration).toMatchObject({ status: "complete", truncatedChunks: 1, reembeddedChunks: 1 });
+    const reembedded = await t.run((ctx) => ctx.db.get(legacy._id));
+    expect(reembedded?.embeddingModel).toBe(current.embeddingModel);
+    expect(reembedded?.embedding).not.toEqual(stale);
+    const [gym] = await asUser.query(api.documents.getByFileName, { fileName: "gym.txt" });
+    const [hit] = await asUser.action(api.documents.vectorSearch, { query: "when does the gym open", limit: 1 });
+    expect(hit._id).toBe(gym._id);
+  });
+
+  test("full vectors can only be dropped once the migration is complete", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+
+    await expect(t.mutation(internal.embeddingMigration.dropFullEmbeddings, { cursor: null })).rejects.toThrow(
+      "Search does not use reduced embeddings yet"
+    );
+
+    await t.mutation(internal.embeddingMigration.startMigration, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    await t.mutation(internal.embeddingMigration.dropFullEmbeddings, { cursor: null });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+
+    const rows = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(rows.map((row) => row.embedding)).toEqual([undefined, undefined]);
+    expect(await asUser.action(api.documents.vectorSearch, { query: "gym hours" })).toHaveLength(2);
+    expect(await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" })).toMatchObject({
+      success: true,
+    });
+  });
+
+  test("the dimensionality can only change while every chunk has a full vector", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    await t.mutation(internal.embeddingMigration.startMigration, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    await t.mutation(internal.embeddingMigration.dropFullEmbeddings, { cursor: null });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    await expect(t.mutation(internal.embeddingMigration.startMigration, { dimensions: 512 })).rejects.toThrow(
+      "run restoreFullEmbeddings"
+    );
+
+    await t.mutation(internal.embeddingMigration.restoreFullEmbeddings, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const restored = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(restored.map((row) => row.embedding?.length)).toEqual([EMBEDDING_DIMENSIONS]);
+    expect(await asUser.action(api.documents.vectorSearch, { query: "when does the gym open" })).toHaveLength(1);
+
+    // Clears the reduced vectors so the new dimensionality can be deployed
+    await t.mutation(internal.embeddingMigration.startMigration, { dimensions: 512 });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const cleared = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(cleared.map((row) => row.reducedEmbedding)).toEqual([undefined]);
+    expect(await t.query(internal.embeddingMigration.vectorIndexInUse, {})).toBe("by_embedding");
+    await asUser.action(api.ragActions.embedDocument, { fileName: "parking.txt", content: PARKING_POLICY });
+    const rows = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(rows.map((row) => row.reducedEmbedding)).toEqual([undefined, undefined]);
+    expect(await asUser.action(api.documents.vectorSearch, { query: "when does the gym open" })).toHaveLength(2);
+
+    await t.mutation(internal.embeddingMigration.startMigration, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.query(internal.embeddingMigration.vectorIndexInUse, {})).toBe("by_reduced_embedding");
+  });
+});
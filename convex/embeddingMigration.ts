@@ -0,0 +1,568 @@
+/**
+ * Embedding Migration Module
+ *
+ * Full embeddings have EMBEDDING_DIMENSIONS (3072) dimensions, which makes
+ * every chunk's vector costly to store and to search. Chunks can instead be
+ * searched through `reducedEmbedding`, the vector truncated to
+ * REDUCED_EMBEDDING_DIMENSIONS (see embeddings.reduceEmbedding), which has
+ * its own `by_reduced_embedding` vector index.
+ *
+ * Existing chunks are switched over by a background migration:
+ *
+ * 1. startMigration records an `embeddingMigrations` row in the
+ *    "backfilling" state. From then on new chunks store both vectors.
+ * 2. backfill walks chunkEmbeddings BACKFILL_BATCH_SIZE rows at a time. A
+ *    chunk whose vector came from the current provider model has it
+ *    truncated; any other chunk is embedded again from its text, through the
+ *    embedding cache, so its vectors match the model that embeds queries.
+ * 3. After the last batch the migration is "complete": search switches to
+ *    the reduced index.
+ * 4. dropFullEmbeddings deletes the full vectors to reclaim their storage,
+ *    and new chunks only store the reduced vector from then on. This is
+ *    optional; restoreFullEmbeddings embeds the full vectors again.
+ *
+ * Until the migration is complete search keeps using the full index, which
+ * still covers every chunk, so results never come from a half-filled index.
+ *
+ * The reduced index is declared with REDUCED_EMBEDDING_DIMENSIONS, so its
+ * vectors all have to be cleared before a schema with another dimensionality
+ * can be deployed. startMigration does that when given the new `dimensions`:
+ * it forgets the migration, so search falls back to the full index, and
+ * clearReducedBatch removes every reduced vector. After the deploy,
+ * startMigration builds the new reduced index. Falling back only works while
+ * the full index is complete, which is why the vectors are not cleared while
+ * the full vectors of an earlier migration are dropped.
+ *
+ * @module embeddingMigration
+ */
+
+import { v } from "convex/values";
+import { internalQuery, internalMutation, internalAction, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { EMBEDDING_DIMENSIONS, REDUCED_EMBEDDING_DIMENSIONS } from "./schema";
+import { getEmbeddingProvider, reduceEmbedding } from "./embeddings";
+import { embedWithCache } from "./embeddingCache";
+import { embeddingText } from "./chunking";
+
+/**
+ * Number of chunks handled per scheduled backfill run
+ */
+const BACKFILL_BATCH_SIZE = 50;
+
+/**
+ * Number of chunks updated per scheduled dropFullEmbeddings or
+ * clearReducedBatch run
+ */
+const DROP_BATCH_SIZE = 100;
+
+/**
+ * Vector indexes of chunkEmbeddings that search can use
+ */
+export type ChunkVectorIndex = "by_embedding" | "by_reduced_embedding";
+
+/**
+ * Load the migration to REDUCED_EMBEDDING_DIMENSIONS
+ *
+ * @param ctx - Query or mutation context
+ * @returns The migration, or null if it was never started
+ */
+export async function getMigration(ctx: QueryCtx): Promise<Doc<"embeddingMigrations"> | null> {
+  return await ctx.db
+    .query("embeddingMigrations")
+    .withIndex("by_dimensions", (q) => q.eq("dimensions", REDUCED_EMBEDDING_DIMENSIONS))
+    .unique();
+}
+
+/**
+ * Whether search runs on reduced vectors
+ *
+ * @param ctx - Query or mutation context
+ * @returns True once every chunk has a reduced vector
+ */
+export async function usesReducedEmbeddings(ctx: QueryCtx): Promise<boolean> {
+  return (await getMigration(ctx))?.status === "complete";
+}
+
+/**
+ * Vector fields to store for a new chunk
+ *
+ * @param ctx - Mutation context
+ * @param embedding - Full embedding vector of the chunk
+ * @returns The full vector before the migration has started, both vectors
+ *   once it has, and only the reduced one once the full vectors were dropped
+ */
+export async function chunkVectors(
+  ctx: MutationCtx,
+  embedding: number[]
+): Promise<{ embedding?: number[]; reducedEmbedding?: number[] }> {
+  const migration = await getMigration(ctx);
+  if (migration === null) {
+    return { embedding };
+  }
+  const reducedEmbedding = reduceEmbedding(embedding);
+  return migration.fullEmbeddingsDropped ? { reducedEmbedding } : { embedding, reducedEmbedding };
+}
+
+/**
+ * Get the vector index search should use
+ *
+ * @returns `by_reduced_embedding` once the migration is complete, otherwise
+ *   `by_embedding`
+ */
+export const vectorIndexInUse = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<ChunkVectorIndex> => {
+    return (await usesReducedEmbeddings(ctx)) ? "by_reduced_embedding" : "by_embedding";
+  },
+});
+
+// Fail if dropFullEmbeddings has run since the last restoreFullEmbeddings
+async function requireFullEmbeddings(ctx: QueryCtx): Promise<void> {
+  const dropped = await ctx.db
+    .query("embeddingMigrations")
+    .filter((q) => q.eq(q.field("fullEmbeddingsDropped"), true))
+    .first();
+  if (dropped !== null) {
+    throw new Error(
+      `Full embeddings were dropped after the switch to ${dropped.dimensions} dimensions, ` +
+        "run restoreFullEmbeddings before changing REDUCED_EMBEDDING_DIMENSIONS"
+    );
+  }
+}
+
+/**
+ * Start switching chunks to reduced embeddings
+ *
+ * Running it again while the migration is backfilling restarts the backfill,
+ * e.g. after a batch failed; chunks that already have a reduced vector are
+ * skipped. Running it after the migration is complete does nothing.
+ *
+ * Given `dimensions` other than REDUCED_EMBEDDING_DIMENSIONS, it prepares a
+ * change of the dimensionality instead: the migrations are deleted, so
+ * search and new chunks go back to full vectors only, and clearReducedBatch
+ * removes every reduced vector. Once it is done, the schema with the new
+ * REDUCED_EMBEDDING_DIMENSIONS can be deployed and startMigration run again.
+ *
+ * @param dimensions - Optional dimensionality to change to
+ * @returns The ID of the migration, or null when preparing a change
+ *
+ * @throws Error if the full vectors were dropped; search would have no
+ *   complete index to use, so run restoreFullEmbeddings first
+ * @throws Error if `dimensions` is not between 1 and EMBEDDING_DIMENSIONS
+ *
+ * @example
+ * ```bash
+ * npx convex run embeddingMigration:startMigration
+ * npx convex run embeddingMigration:startMigration '{"dimensions": 512}'
+ * ```
+ */
+export const startMigration = internalMutation({
+  args: { dimensions: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<Id<"embeddingMigrations"> | null> => {
+    if (args.dimensions !== undefined && args.dimensions !== REDUCED_EMBEDDING_DIMENSIONS) {
+      return await prepareDimensionChange(ctx, args.dimensions);
+    }
+
+    const existing = await getMigration(ctx);
+    if (existing?.status === "complete") {
+      console.log(`✅ Embeddings were already reduced to ${REDUCED_EMBEDDING_DIMENSIONS} dimensions`);
+      return existing._id;
+    }
+    await requireFullEmbeddings(ctx);
+
+    const migrationId =
+      existing?._id ??
+      (await ctx.db.insert("embeddingMigrations", {
+        dimensions: REDUCED_EMBEDDING_DIMENSIONS,
+        status: "backfilling",
+        startedAt: Date.now(),
+        truncatedChunks: 0,
+        reembeddedChunks: 0,
+      }));
+    await ctx.scheduler.runAfter(0, internal.embeddingMigration.backfill, { migrationId, cursor: null });
+    console.log(`📐 Reducing embeddings to ${REDUCED_EMBEDDING_DIMENSIONS} dimensions`);
+    return migrationId;
+  },
+});
+
+// Go back to full vectors and clear the reduced ones, see startMigration
+async function prepareDimensionChange(ctx: MutationCtx, dimensions: number): Promise<null> {
+  if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > EMBEDDING_DIMENSIONS) {
+    throw new Error(`Reduced embeddings need between 1 and ${EMBEDDING_DIMENSIONS} dimensions`);
+  }
+  await requireFullEmbeddings(ctx);
+
+  for (const migration of await ctx.db.query("embeddingMigrations").collect()) {
+    await ctx.db.delete(migration._id);
+  }
+  await ctx.scheduler.runAfter(0, internal.embeddingMigration.clearReducedBatch, { dimensions, cursor: null });
+  console.log(`📐 Clearing ${REDUCED_EMBEDDING_DIMENSIONS}-dimensional embeddings to change to ${dimensions}`);
+  return null;
+}
+
+/**
+ * Remove the reduced vectors of a batch of chunks
+ *
+ * Walks chunkEmbeddings DROP_BATCH_SIZE rows at a time and reschedules itself
+ * until the end, then logs that the new dimensionality can be deployed.
+ *
+ * @param dimensions - Dimensionality being changed to, for the final log
+ * @param cursor - Position to continue from, or null to start
+ */
+export const clearReducedBatch = internalMutation({
+  args: { dimensions: v.number(), cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("chunkEmbeddings")
+      .paginate({ cursor: args.cursor, numItems: DROP_BATCH_SIZE });
+    for (const row of page.page) {
+      if (row.reducedEmbedding !== undefined) {
+        await ctx.db.patch(row._id, { reducedEmbedding: undefined });
+      }
+    }
+
+    if (page.isDone) {
+      console.log(
+        `✅ Reduced embeddings cleared: set REDUCED_EMBEDDING_DIMENSIONS to ${args.dimensions}, ` +
+          "deploy and run startMigration"
+      );
+    } else {
+      await ctx.scheduler.runAfter(0, internal.embeddingMigration.clearReducedBatch, {
+        dimensions: args.dimensions,
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Give a batch of chunks reduced vectors
+ *
+ * Truncates the vectors that came from the current provider model and
+ * returns the chunks whose vectors have to be embedded again.
+ *
+ * @param migrationId - The running migration
+ * @param cursor - Position to continue from, or null to start
+ * @param embeddingModel - Model of the current embedding provider
+ * @returns The chunks to embed again with their owner and embedding text,
+ *   and the position of the next batch
+ */
+export const reduceBatch = internalMutation({
+  args: {
+    migrationId: v.id("embeddingMigrations"),
+    cursor: v.union(v.string(), v.null()),
+    embeddingModel: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("chunkEmbeddings")
+      .paginate({ cursor: args.cursor, numItems: BACKFILL_BATCH_SIZE });
+
+    let truncated = 0;
+    const stale: Array<{ chunkEmbeddingId: Id<"chunkEmbeddings">; userId: Id<"users">; text: string }> = [];
+    for (const row of page.page) {
+      if (row.reducedEmbedding?.length === REDUCED_EMBEDDING_DIMENSIONS) {
+        continue;
+      }
+      if (row.embedding !== undefined && row.embeddingModel === args.embeddingModel) {
+        await ctx.db.patch(row._id, { reducedEmbedding: reduceEmbedding(row.embedding) });
+        truncated++;
+        continue;
+      }
+      const doc = await ctx.db.get(row.documentId);
+      if (doc !== null) {
+        stale.push({
+          chunkEmbeddingId: row._id,
+          userId: row.userId,
+          text: embeddingText({ text: doc.text, headingPath: doc.metadata.headingPath ?? [] }),
+        });
+      }
+    }
+
+    const migration = await ctx.db.get(args.migrationId);
+    if (migration !== null && truncated > 0) {
+      await ctx.db.patch(migration._id, { truncatedChunks: migration.truncatedChunks + truncated });
+    }
+    return { stale, continueCursor: page.continueCursor, isDone: page.isDone };
+  },
+});
+
+/**
+ * Store the vectors of chunks that were embedded again
+ *
+ * Both vectors are replaced, so the chunk's full vector matches the model
+ * that now embeds queries too. Chunks deleted meanwhile are skipped.
+ *
+ * @param migrationId - The running migration
+ * @param embeddingModel - Model that produced the vectors
+ * @param chunks - Chunk vector rows with their new full vectors
+ */
+export const storeReembedded = internalMutation({
+  args: {
+    migrationId: v.id("embeddingMigrations"),
+    embeddingModel: v.string(),
+    chunks: v.array(v.object({ chunkEmbeddingId: v.id("chunkEmbeddings"), embedding: v.array(v.float64()) })),
+  },
+  handler: async (ctx, args) => {
+    let stored = 0;
+    for (const { chunkEmbeddingId, embedding } of args.chunks) {
+      if ((await ctx.db.get(chunkEmbeddingId)) === null) {
+        continue;
+      }
+      await ctx.db.patch(chunkEmbeddingId, {
+        embedding,
+        reducedEmbedding: reduceEmbedding(embedding),
+        embeddingModel: args.embeddingModel,
+      });
+      stored++;
+    }
+
+    const migration = await ctx.db.get(args.migrationId);
+    if (migration !== null) {
+      await ctx.db.patch(migration._id, { reembeddedChunks: migration.reembeddedChunks + stored });
+    }
+  },
+});
+
+/**
+ * Mark the migration complete, switching search to reduced vectors
+ *
+ * @param migrationId - The migration
+ */
+export const completeMigration = internalMutation({
+  args: { migrationId: v.id("embeddingMigrations") },
+  handler: async (ctx, args) => {
+    const migration = await ctx.db.get(args.migrationId);
+    if (migration === null || migration.status === "complete") {
+      return;
+    }
+    await ctx.db.patch(migration._id, { status: "complete", completedAt: Date.now() });
+    console.log(
+      `✅ Search now uses ${migration.dimensions}-dimensional embeddings ` +
+        `(${migration.truncatedChunks} truncated, ${migration.reembeddedChunks} embedded again)`
+    );
+  },
+});
+
+/**
+ * Backfill reduced vectors, one batch per run
+ *
+ * Reschedules itself until every chunk has a reduced vector, then completes
+ * the migration.
+ *
+ * @param migrationId - The running migration
+ * @param cursor - Position to continue from, or null to start
+ */
+export const backfill = internalAction({
+  args: {
+    migrationId: v.id("embeddingMigrations"),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const embeddingModel = getEmbeddingProvider().model;
+    const batch = await ctx.runMutation(internal.embeddingMigration.reduceBatch, {
+      migrationId: args.migrationId,
+      cursor: args.cursor,
+      embeddingModel,
+    });
+
+    // The embedding cache is per user, so stale chunks are embedded per owner
+    const byUser = new Map<Id<"users">, typeof batch.stale>();
+    for (const chunk of batch.stale) {
+      byUser.set(chunk.userId, [...(byUser.get(chunk.userId) ?? []), chunk]);
+    }
+    for (const [userId, chunks] of byUser) {
+      const { embeddings } = await embedWithCache(
+        ctx,
+        userId,
+        chunks.map((chunk) => chunk.text)
+      );
+      await ctx.runMutation(internal.embeddingMigration.storeReembedded, {
+        migrationId: args.migrationId,
+        embeddingModel,
+        chunks: chunks.map((chunk, i) => ({ chunkEmbeddingId: chunk.chunkEmbeddingId, embedding: embeddings[i] })),
+      });
+    }
+
+    if (batch.isDone) {
+      await ctx.runMutation(internal.embeddingMigration.completeMigration, { migrationId: args.migrationId });
+    } else {
+      await ctx.scheduler.runAfter(0, internal.embeddingMigration.backfill, {
+        migrationId: args.migrationId,
+        cursor: batch.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Delete the full vectors of chunks that have a reduced one
+ *
+ * Only allowed once search uses reduced vectors. Walks chunkEmbeddings
+ * DROP_BATCH_SIZE rows at a time and reschedules itself until the end; new
+ * chunks stop storing full vectors right away. REDUCED_EMBEDDING_DIMENSIONS
+ * cannot be changed afterwards until restoreFullEmbeddings has run.
+ *
+ * @param cursor - Position to continue from, or null to start
+ *
+ * @throws Error if the migration is not complete
+ *
+ * @example
+ * ```bash
+ * npx convex run embeddingMigration:dropFullEmbeddings '{"cursor": null}'
+ * ```
+ */
+export const dropFullEmbeddings = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    if (!(await usesReducedEmbeddings(ctx))) {
+      throw new Error("Search does not use reduced embeddings yet, run startMigration first");
+    }
+    const migration = await getMigration(ctx);
+    if (migration !== null && !migration.fullEmbeddingsDropped) {
+      await ctx.db.patch(migration._id, { fullEmbeddingsDropped: true });
+    }
+
+    const page = await ctx.db
+      .query("chunkEmbeddings")
+      .paginate({ cursor: args.cursor, numItems: DROP_BATCH_SIZE });
+    for (const row of page.page) {
+      if (row.embedding !== undefined && row.reducedEmbedding !== undefined) {
+        await ctx.db.patch(row._id, { embedding: undefined });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.embeddingMigration.dropFullEmbeddings, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+/**
+ * Embed the full vectors of every chunk again after dropFullEmbeddings
+ *
+ * New chunks store full vectors again right away, and restoreBatch fills in
+ * the rest in the background while search keeps using reduced vectors. Needed
+ * before REDUCED_EMBEDDING_DIMENSIONS can be changed, see startMigration.
+ *
+ * @example
+ * ```bash
+ * npx convex run embeddingMigration:restoreFullEmbeddings
+ * ```
+ */
+export const restoreFullEmbeddings = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const dropped = await ctx.db
+      .query("embeddingMigrations")
+      .filter((q) => q.eq(q.field("fullEmbeddingsDropped"), true))
+      .collect();
+    for (const migration of dropped) {
+      await ctx.db.patch(migration._id, { fullEmbeddingsDropped: false });
+    }
+    await ctx.scheduler.runAfter(0, internal.embeddingMigration.restoreBatch, { cursor: null });
+    console.log("📐 Restoring full embeddings");
+  },
+});
+
+/**
+ * List a batch of chunks that have no full vector
+ *
+ * @param cursor - Position to continue from, or null to start
+ * @returns The chunks with their owner, embedding text and reduced vector
+ *   length, and the position of the next batch
+ */
+export const missingFullBatch = internalQuery({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("chunkEmbeddings")
+      .paginate({ cursor: args.cursor, numItems: BACKFILL_BATCH_SIZE });
+
+    const missing: Array<{ chunkEmbeddingId: Id<"chunkEmbeddings">; userId: Id<"users">; text: string }> = [];
+    for (const row of page.page) {
+      const doc = row.embedding === undefined ? await ctx.db.get(row.documentId) : null;
+      if (doc !== null) {
+        missing.push({
+          chunkEmbeddingId: row._id,
+          userId: row.userId,
+          text: embeddingText({ text: doc.text, headingPath: doc.metadata.headingPath ?? [] }),
+        });
+      }
+    }
+    return { missing, continueCursor: page.continueCursor, isDone: page.isDone };
+  },
+});
+
+/**
+ * Store restored full vectors
+ *
+ * The reduced vector, if the chunk still has one, is derived again from the
+ * new full vector, keeping its length, so both come from the same model.
+ * Chunks deleted meanwhile are skipped.
+ *
+ * @param embeddingModel - Model that produced the vectors
+ * @param chunks - Chunk vector rows with their new full vectors
+ */
+export const storeRestored = internalMutation({
+  args: {
+    embeddingModel: v.string(),
+    chunks: v.array(v.object({ chunkEmbeddingId: v.id("chunkEmbeddings"), embedding: v.array(v.float64()) })),
+  },
+  handler: async (ctx, args) => {
+    for (const { chunkEmbeddingId, embedding } of args.chunks) {
+      const row = await ctx.db.get(chunkEmbeddingId);
+      if (row === null) {
+        continue;
+      }
+      await ctx.db.patch(chunkEmbeddingId, {
+        embedding,
+        ...(row.reducedEmbedding !== undefined
+          ? { reducedEmbedding: reduceEmbedding(embedding, row.reducedEmbedding.length) }
+          : {}),
+        embeddingModel: args.embeddingModel,
+      });
+    }
+  },
+});
+
+/**
+ * Restore full vectors, one batch per run
+ *
+ * Embeds through the embedding cache, which usually still holds the vectors
+ * of recently used chunks. Reschedules itself until the end of the table.
+ *
+ * @param cursor - Position to continue from, or null to start
+ */
+export const restoreBatch = internalAction({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const embeddingModel = getEmbeddingProvider().model;
+    const batch = await ctx.runQuery(internal.embeddingMigration.missingFullBatch, { cursor: args.cursor });
+
+    const byUser = new Map<Id<"users">, typeof batch.missing>();
+    for (const chunk of batch.missing) {
+      byUser.set(chunk.userId, [...(byUser.get(chunk.userId) ?? []), chunk]);
+    }
+    for (const [userId, chunks] of byUser) {
+      const { embeddings } = await embedWithCache(
+        ctx,
+        userId,
+        chunks.map((chunk) => chunk.text)
+      );
+      await ctx.runMutation(internal.embeddingMigration.storeRestored, {
+        embeddingModel,
+        chunks: chunks.map((chunk, i) => ({ chunkEmbeddingId: chunk.chunkEmbeddingId, embedding: embeddings[i] })),
+      });
+    }
+
+    if (batch.isDone) {
+      console.log("✅ Full embeddings restored");
+    } else {
+      await ctx.scheduler.runAfter(0, internal.embeddingMigration.restoreBatch, { cursor: batch.continueCursor });
+    }
+  },
+});
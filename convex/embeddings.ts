@@ -0,0 +1,305 @@
+/**
+ * Embedding Providers Module
+ *
+ * This module hides the embedding model behind a small provider interface so
+ * the rest of the RAG system never talks to a specific SDK. Three providers
+ * are available:
+ *
+ * - `google`: Gemini gemini-embedding-001 (default)
+ * - `openai`: OpenAI text-embedding-3-large through @langchain/openai
+ * - `hashing`: deterministic local feature-hashing embedder that needs no API
+ *   key and no network, for development and tests
+ *
+ * Every provider returns EMBEDDING_DIMENSIONS-dimensional vectors so they all
+ * fit the `by_embedding` vector index. Vectors from different models are not
+ * comparable, so each chunk records the `model` of the provider that produced
+ * it; switching providers requires re-ingesting existing documents.
+ *
+ * Search can also run on vectors truncated to REDUCED_EMBEDDING_DIMENSIONS
+ * (see reduceEmbedding and embeddingMigration.ts), which is how Gemini and
+ * OpenAI produce their smaller output sizes in the first place.
+ *
+ * Environment Variables:
+ * - EMBEDDING_PROVIDER: "google" | "openai" | "hashing" (default: "google")
+ * - EMBEDDING_MODEL: Optional model name override for the chosen provider
+ * - GOOGLE_API_KEY / OPENAI_API_KEY: API key of the chosen remote provider
+ *
+ * @module embeddings
+ */
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { EMBEDDING_DIMENSIONS, REDUCED_EMBEDDING_DIMENSIONS } from "./schema";
+
+/**
+ * A source of embedding vectors
+ */
+export interface EmbeddingProvider {
+  /** Identifier stored on every chunk, e.g. "google/gemini-embedding-001" */
+  readonly model: string;
+  /** Maximum number of texts accepted by a single embed call */
+  readonly maxBatchSize: number;
+  /** Embed texts, returning one vector per text in input order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Run an embedding request with exponential backoff on rate limit errors
+ *
+ * Rate limit (429 / quota) errors are retried after 1s, 2s, 4s, 8s, 16s.
+ * Any other error is thrown immediately.
+ *
+ * @param request - Function performing the API request
+ * @param maxRetries - Maximum number of attempts
+ * @returns The result of the request
+ */
+async function withRateLimitRetry<T>(request: () => Promise<T>, maxRetries: number = 5): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Check if it's a rate limit error (429)
+      const isRateLimitError = lastError.message.includes('429') ||
+                               lastError.message.includes('quota') ||
+                               lastError.message.includes('rate limit');
+
+      if (isRateLimitError && attempt < maxRetries - 1) {
+        // Exponential backoff: 2^attempt seconds (1s, 2s, 4s, 8s, 16s)
+        const delayMs = Math.pow(2, attempt) * 1000;
+        console.log(`⏳ Rate limit hit. Retrying in ${delayMs / 1000}s... (attempt ${attempt + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      } else if (!isRateLimitError) {
+        // If it's not a rate limit error, throw immediately
+        throw lastError;
+      }
+    }
+  }
+
+  // If all retries failed, throw the last error
+  throw lastError || new Error('Failed to generate embedding after retries');
+}
+
+/**
+ * Create the Gemini embedding provider
+ *
+ * Uses batchEmbedContents so a whole batch costs one API call. The Gemini API
+ * accepts up to 100 texts per batch.
+ *
+ * @param modelName - Gemini embedding model (default: gemini-embedding-001)
+ */
+export function createGoogleEmbeddingProvider(modelName: string = "gemini-embedding-001"): EmbeddingProvider {
+  const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
+  const model = genAI.getGenerativeModel({ model: modelName });
+
+  return {
+    model: `google/${modelName}`,
+    maxBatchSize: 100,
+    embed: async (texts) => {
+      const result = await withRateLimitRetry(() =>
+        model.batchEmbedContents({
+          requests: texts.map((text) => ({
+            content: { role: "user", parts: [{ text }] },
+          })),
+        })
+      );
+      return result.embeddings.map((embedding) => embedding.values);
+    },
+  };
+}
+
+/**
+ * Create the OpenAI embedding provider
+ *
+ * text-embedding-3 models support shortened outputs, so the vectors are
+ * requested at EMBEDDING_DIMENSIONS to fit the vector index.
+ *
+ * @param modelName - OpenAI embedding model (default: text-embedding-3-large)
+ */
+export function createOpenAIEmbeddingProvider(modelName: string = "text-embedding-3-large"): EmbeddingProvider {
+  const embeddings = new OpenAIEmbeddings({
+    model: modelName,
+    dimensions: EMBEDDING_DIMENSIONS,
+    apiKey: process.env.OPENAI_API_KEY,
+    // Rate limits are handled by withRateLimitRetry like the other providers
+    maxRetries: 0,
+  });
+
+  return {
+    model: `openai/${modelName}`,
+    maxBatchSize: 512,
+    embed: (texts) => withRateLimitRetry(() => embeddings.embedDocuments(texts)),
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(value: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embed one text by feature hashing its words and word pairs
+ *
+ * Each feature is hashed to a bucket and a sign, the counts are accumulated
+ * and the vector is L2-normalised. Texts sharing vocabulary end up close to
+ * each other, which is enough for retrieval tests to be meaningful.
+ */
+function hashEmbed(text: string, dimensions: number): number[] {
+  const vector: number[] = new Array(dimensions).fill(0);
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = words.concat(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+
+  for (const feature of features) {
+    const bucket = fnv1a(feature) % dimensions;
+    const sign = fnv1a(feature, 0x9e3779b9) & 1 ? 1 : -1;
+    vector[bucket] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  if (norm === 0) {
+    // Cosine similarity is undefined for the zero vector
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((x) => x / norm);
+}
+
+/**
+ * Create the deterministic local hashing provider
+ *
+ * Needs no API key and no network, and the same text always produces the
+ * same vector, so development and tests run fully offline.
+ */
+export function createHashingEmbeddingProvider(): EmbeddingProvider {
+  return {
+    model: "local/hashing-v1",
+    maxBatchSize: Number.MAX_SAFE_INTEGER,
+    embed: async (texts) => texts.map((text) => hashEmbed(text, EMBEDDING_DIMENSIONS)),
+  };
+}
+
+let provider: { key: string; instance: EmbeddingProvider } | null = null;
+
+/**
+ * Get the embedding provider selected by EMBEDDING_PROVIDER
+ *
+ * The provider is created once per configuration and reused, so the SDK
+ * client is not rebuilt for every call.
+ *
+ * @throws Error if EMBEDDING_PROVIDER names an unknown provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const name = process.env.EMBEDDING_PROVIDER || "google";
+  const modelName = process.env.EMBEDDING_MODEL || undefined;
+  const key = `${name}:${modelName ?? ""}`;
+
+  if (provider === null || provider.key !== key) {
+    switch (name) {
+      case "google":
+        provider = { key, instance: createGoogleEmbeddingProvider(modelName) };
+        break;
+      case "openai":
+        provider = { key, instance: createOpenAIEmbeddingProvider(modelName) };
+        break;
+      case "hashing":
+        provider = { key, instance: createHashingEmbeddingProvider() };
+        break;
+      default:
+        throw new Error(`Unknown EMBEDDING_PROVIDER "${name}"`);
+    }
+  }
+  return provider.instance;
+}
+
+/**
+ * Generate an embedding for a single text
+ *
+ * Used for both document chunks and user queries to enable semantic
+ * similarity search.
+ *
+ * @param text - The text to embed
+ * @returns Promise resolving to an EMBEDDING_DIMENSIONS-dimensional vector
+ *
+ * @throws Error if the provider request fails
+ *
+ * @example
+ * ```typescript
+ * const embedding = await generateEmbedding("What are the gym hours?");
+ * console.log(embedding.length); // 3072
+ * ```
+ */
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text]);
+  return embedding;
+}
+
+/**
+ * Generate embeddings for several texts
+ *
+ * Texts are sent in as few requests as the provider allows.
+ *
+ * @param texts - The texts to embed
+ * @returns Embedding vectors in the same order as `texts`
+ *
+ * @throws Error if a request fails or returns the wrong number of vectors
+ *
+ * @example
+ * ```typescript
+ * const embeddings = await generateEmbeddings(["chunk one", "chunk two"]);
+ * console.log(embeddings.length); // 2
+ * ```
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const { embed, maxBatchSize } = getEmbeddingProvider();
+  const results: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += maxBatchSize) {
+    const batch = texts.slice(i, i + maxBatchSize);
+    const embeddings = await embed(batch);
+    if (embeddings.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+    }
+    results.push(...embeddings);
+  }
+
+  return results;
+}
+
+/**
+ * Reduce an embedding to fewer dimensions
+ *
+ * Gemini and OpenAI embeddings are trained so that their leading dimensions
+ * carry most of the meaning; their APIs produce smaller outputs the same way,
+ * by truncating and renormalizing. Query and chunk vectors must be reduced to
+ * the same size to be compared.
+ *
+ * @param embedding - A full EMBEDDING_DIMENSIONS-dimensional vector
+ * @param dimensions - Target size (default: REDUCED_EMBEDDING_DIMENSIONS)
+ * @returns The first `dimensions` components, L2-normalised
+ *
+ * @example
+ * ```typescript
+ * const reduced = reduceEmbedding(await generateEmbedding("What are the gym hours?"));
+ * console.log(reduced.length); // 768
+ * ```
+ */
+export function reduceEmbedding(embedding: number[], dimensions: number = REDUCED_EMBEDDING_DIMENSIONS): number[] {
+  const truncated = embedding.slice(0, dimensions);
+  const norm = Math.sqrt(truncated.reduce((sum, x) => sum + x * x, 0));
+  if (norm === 0) {
+    // Cosine similarity is undefined for the zero vector
+    truncated[0] = 1;
+    return truncated;
+  }
+  return truncated.map((x) => x / norm);
+}
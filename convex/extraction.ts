@@ -0,0 +1,230 @@
+"use node";
+
+/**
+ * Text Extraction Module
+ *
+ * Node.js actions that turn raw uploaded files into plain text for the
+ * ingestion pipeline in ingestion.ts. PDF parsing relies on pdfjs and DOCX
+ * conversion on mammoth, which both need the Node.js runtime, so this step
+ * is kept apart from the rest of the pipeline. HTML, CSV and JSON are
+ * converted by formats.ts.
+ *
+ * @module extraction
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { PAGE_BREAK } from "./chunking";
+import { csvToText, detectFormat, DocumentFormat, htmlToText, jsonToText, subtitlesToText } from "./formats";
+
+/**
+ * A line of PDF text with the height of its largest glyphs
+ */
+interface PdfLine {
+  text: string;
+  height: number;
+}
+
+// "Chapter 3", "Part II", "Appendix A: Forms"
+const CHAPTER_HEADING = /^(chapter|part|appendix)\s+[\w.]+/i;
+// "3 Safety", "3.1 Safety Rules", "3.1. Safety Rules"
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+\p{Lu}/u;
+
+/**
+ * Font height used by most of the document's text
+ */
+function bodyTextHeight(lines: PdfLine[]): number {
+  const charsByHeight = new Map<number, number>();
+  for (const line of lines) {
+    const height = Math.round(line.height * 2) / 2;
+    charsByHeight.set(height, (charsByHeight.get(height) ?? 0) + line.text.length);
+  }
+
+  let bodyHeight = 0;
+  let mostChars = -1;
+  for (const [height, chars] of charsByHeight) {
+    if (chars > mostChars) {
+      bodyHeight = height;
+      mostChars = chars;
+    }
+  }
+  return bodyHeight;
+}
+
+/**
+ * Guess whether a PDF line is a heading, and at which level
+ *
+ * PDFs carry no heading markup, so this is a heuristic: a short line that
+ * does not end like a sentence is a heading when it is set noticeably larger
+ * than the body text, or when it reads like "Chapter 3". Numbered headings
+ * take their level from the numbering depth, others from their font size.
+ *
+ * @returns Heading level 1-6, or null for body text
+ */
+function headingLevel(line: PdfLine, bodyHeight: number): number | null {
+  if (line.text.length === 0 || line.text.length > 100 || /[.,;:]$/.test(line.text)) {
+    return null;
+  }
+  if (CHAPTER_HEADING.test(line.text)) {
+    return 1;
+  }
+  if (bodyHeight === 0 || line.height < bodyHeight * 1.15) {
+    return null;
+  }
+
+  const numbering = line.text.match(NUMBERED_HEADING);
+  if (numbering) {
+    return Math.min(numbering[1].split(".").length, 6);
+  }
+  if (line.height >= bodyHeight * 1.6) return 1;
+  if (line.height >= bodyHeight * 1.3) return 2;
+  return 3;
+}
+
+/**
+ * Extract the text of every page in a PDF
+ *
+ * Text is rebuilt line by line, and lines that look like headings are
+ * written as Markdown headings so chunkDocument (chunking.ts) can record
+ * each chunk's section. Pages are separated by a PAGE_BREAK between blank
+ * lines, so the chunker prefers to break on page boundaries and can record
+ * the pages each chunk spans.
+ *
+ * @param data - Raw PDF bytes
+ * @returns The concatenated text of all pages
+ */
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjsLib = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(data) }).promise;
+
+  const pages: PdfLine[][] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const lines: PdfLine[] = [];
+    let current: PdfLine = { text: "", height: 0 };
+
+    const endLine = () => {
+      const text = current.text.replace(/\s+/g, " ").trim();
+      if (text.length > 0) {
+        lines.push({ text, height: current.height });
+      }
+      current = { text: "", height: 0 };
+    };
+
+    for (const item of textContent.items) {
+      if (!("str" in item)) continue;
+      current.text += item.str + " ";
+      current.height = Math.max(current.height, item.height);
+      if (item.hasEOL) endLine();
+    }
+    endLine();
+    pages.push(lines);
+  }
+
+  const bodyHeight = bodyTextHeight(pages.flat());
+
+  return pages
+    .map((lines) =>
+      lines
+        .map((line) => {
+          const level = headingLevel(line, bodyHeight);
+          return level === null ? line.text : `${"#".repeat(level)} ${line.text}`;
+        })
+        .join("\n")
+    )
+    .join(`\n\n${PAGE_BREAK}\n\n`);
+}
+
+/**
+ * Extract the text of a Word document
+ *
+ * The document is converted to HTML with mammoth, which maps Word heading
+ * styles to `<h1>`-`<h6>` and keeps tables, and then read like any other
+ * HTML page.
+ *
+ * @param data - Raw DOCX bytes
+ * @returns Text for chunkDocument
+ */
+async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  const mammoth = await import("mammoth");
+  const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+  return htmlToText(value);
+}
+
+/**
+ * Extract the text of an uploaded file in the given format
+ */
+async function extractByFormat(blob: Blob, format: DocumentFormat): Promise<string> {
+  switch (format) {
+    case "pdf":
+      return await extractPdfText(await blob.arrayBuffer());
+    case "docx":
+      return await extractDocxText(await blob.arrayBuffer());
+    case "html":
+      return htmlToText(await blob.text());
+    case "csv":
+      return csvToText(await blob.text());
+    case "json":
+      return jsonToText(await blob.text());
+    case "subtitles":
+      return subtitlesToText(await blob.text());
+    case "text":
+      return await blob.text();
+  }
+}
+
+/**
+ * Extract plain text from an uploaded file
+ *
+ * First step of the ingestion pipeline. Loads the raw upload from storage,
+ * extracts its text (see formats.ts for the supported formats), stores the
+ * text as a new blob and hands the job over to chunking.
+ *
+ * @param jobId - The ingestion job to extract
+ */
+export const extractText = internalAction({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    try {
+      const job = await ctx.runQuery(internal.ingestion.getJob, { jobId: args.jobId });
+      if (job === null) {
+        return;
+      }
+
+      await ctx.runMutation(internal.ingestion.markExtracting, { jobId: args.jobId });
+      console.log(`📄 Extracting text from ${job.fileName}`);
+
+      const blob = await ctx.storage.get(job.storageId);
+      if (blob === null) {
+        throw new Error("Uploaded file is missing from storage");
+      }
+
+      const format = detectFormat(job.fileName, job.contentType);
+      if (format === null) {
+        throw new Error(`Unsupported file type: ${job.fileName}`);
+      }
+      const text = await extractByFormat(blob, format);
+
+      if (text.trim().length === 0) {
+        throw new Error("No text could be extracted from the file");
+      }
+
+      const textStorageId = await ctx.storage.store(
+        new Blob([text], { type: "text/plain" }),
+      );
+      await ctx.runMutation(internal.ingestion.markExtracted, {
+        jobId: args.jobId,
+        textStorageId,
+      });
+    } catch (error) {
+      console.error("Error extracting text:", error);
+      await ctx.runMutation(internal.ingestion.markFailed, {
+        jobId: args.jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
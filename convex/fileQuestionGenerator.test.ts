@@ -0,0 +1,76 @@
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+import { setChatScript } from "./models";
+
+const GYM_POLICY = "The gym opens at 6am on weekdays and closes at 10pm.";
+
+afterEach(() => {
+  setChatScript("subtopics", undefined);
+});
+
+describe("runDocumentRetrieval", () => {
+  test("generates questions grounded in the caller's documents", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+
+    const result = await asUser.action(api.fileQuestionGenerator.runDocumentRetrieval, {
+      query: "gym hours",
+    });
+
+    expect(result.enhancedQuery).toBe("gym hours");
+    expect(result.documentsFound).toBe(1);
+    expect(result.subtopics).toHaveLength(3);
+    expect(result.totalQuestions).toBe(15);
+    const [file] = await asUser.query(api.documents.getAllFiles, {});
+    expect(result.questions[0].citation).toEqual({
+      fileId: file.fileId,
+      fileName: "gym.txt",
+      chunkIndex: 0,
+      label: "gym.txt",
+    });
+  });
+
+  test("produces nothing when the caller has no documents", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+
+    const result = await bob.asUser.action(api.fileQuestionGenerator.runDocumentRetrieval, {
+      query: "gym hours",
+    });
+
+    expect(result.documentsFound).toBe(0);
+    expect(result.subtopics).toEqual([]);
+    expect(result.questions).toEqual([]);
+  });
+
+  test("returns no questions when subtopic generation fails", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: GYM_POLICY });
+    setChatScript("subtopics", () => {
+      throw new Error("Model unavailable");
+    });
+
+    const result = await asUser.action(api.fileQuestionGenerator.runDocumentRetrieval, {
+      query: "gym hours",
+    });
+
+    expect(result.documentsFound).toBe(1);
+    expect(result.subtopics).toEqual([]);
+    expect(result.totalQuestions).toBe(0);
+  });
+
+  test("rejects unauthenticated callers", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(
+      t.action(api.fileQuestionGenerator.runDocumentRetrieval, { query: "gym hours" })
+    ).rejects.toThrow("Not authenticated");
+  });
+});
@@ -4,16 +4,12 @@ import { action } from "./_generated/server";
 import { v } from "convex/values";
 import { StateGraph, END, START, Annotation } from "@langchain/langgraph";
 import { api, internal } from "./_generated/api";
+import { requireUserId, searchMode } from "./documents";
 import { HumanMessage, BaseMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { z } from "zod";
-
-// --- Model Configuration ---
-const model = new ChatGoogleGenerativeAI({
-    model: "gemini-2.0-flash",
-    temperature: 0.7,
-    maxOutputTokens: 8192,
-});
+import { getChatModel } from "./models";
+import { formatCitation } from "./chunking";
+import { Doc, Id } from "./_generated/dataModel";
 
 // Constants
 const MIN_SUBTOPICS = 3;
@@ -39,9 +35,21 @@ const QuizQuestionSchema = z.object({
     correctAnswer: z.enum(["A", "B", "C", "D"]),
     explanation: z.string().min(10, "Explanation must be at least 10 characters"),
     subtopic: z.string().optional(),
+    // Number N of the "[Document N: ...]" the correct answer comes from
+    sourceDocument: z.number().int().optional(),
 });
 
-type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+// Chunk a question was generated from, so the client can open it in the
+// document viewer
+type QuizCitation = {
+    fileId: Id<"files">;
+    fileName: string;
+    chunkIndex: number;
+    // e.g. "policy.pdf > Chapter 3 > Safety Rules, p. 12–13"
+    label: string;
+};
+
+type QuizQuestion = z.infer<typeof QuizQuestionSchema> & { citation?: QuizCitation };
 
 // Zod schema for subtopics validation
 const SubtopicsResponseSchema = z.object({
@@ -83,6 +91,30 @@ const AgentStateAnnotation = Annotation.Root({
 
 type AgentState = typeof AgentStateAnnotation.State;
 
+// Label each document with its file, section, pages or timestamp, e.g.
+// "[Document 1: policy.pdf > Chapter 3 > Safety Rules, p. 12–13]", so
+// subtopics can follow the document structure and explanations can cite
+// pages and recording timestamps
+function buildDocumentContext(fullDocs: Doc<"documents">[]): string {
+    return fullDocs
+        .map((doc, i) => `[Document ${i + 1}: ${formatCitation(doc.metadata)}]\n${doc.text}`)
+        .join("\n\n");
+}
+
+// Resolve the document number a question names to the chunk it stands for
+function citationFor(fullDocs: Doc<"documents">[], sourceDocument: number | undefined): QuizCitation | undefined {
+    const doc = sourceDocument !== undefined ? fullDocs[sourceDocument - 1] : undefined;
+    if (!doc) {
+        return undefined;
+    }
+    return {
+        fileId: doc.fileId,
+        fileName: doc.metadata.fileName,
+        chunkIndex: doc.metadata.chunkIndex,
+        label: formatCitation(doc.metadata),
+    };
+}
+
 
 // Node: Enhance the user query for better search results
 async function enhanceQuery(state: AgentState): Promise<Partial<AgentState>> {
@@ -102,7 +134,7 @@ Original query: "${userQuery}"
 
 Provide ONLY the enhanced query text, nothing else.`;
 
-    const response = await model.invoke([
+    const response = await getChatModel("queryEnhancement").invoke([
         new HumanMessage(enhancementPrompt),
     ]);
     
@@ -115,24 +147,29 @@ Provide ONLY the enhanced query text, nothing else.`;
     };
 }
 
-// Node: Retrieve documents using vector search
+// Node: Retrieve documents using vector, keyword or hybrid search
 async function retrieveDocuments(state: AgentState, config: any): Promise<Partial<AgentState>> {
     const { enhancedQuery } = state;
-    const { convexClient } = config.configurable;
+    const { convexClient, userId, fileNames, collectionId, searchMode: mode, expandNeighbors } = config.configurable;
     
-    console.log(`🔍 Retrieving documents for enhanced query: "${enhancedQuery}"`);
+    console.log(`🔍 Retrieving documents for enhanced query: "${enhancedQuery}" (${mode ?? "hybrid"} search)`);
     
-    const searchResults = await convexClient.runAction(api.documents.vectorSearch, {
+    const searchResults = await convexClient.runAction(api.documents.search, {
         query: enhancedQuery,
         limit: 5,
+        fileNames,
+        collectionId,
+        mode,
     });
     
     console.log(`✅ Found ${searchResults.length} documents`);
     
-    // Fetch full document content
-    const fullDocs = await convexClient.runQuery(internal.documents.fetchResults, {
-        ids: searchResults.map((doc: DocumentResult) => doc._id),
-    });
+    // Fetch full document content, widened with the neighbouring chunks of
+    // each hit so questions are not based on passages cut off mid-thought
+    const ids = searchResults.map((doc: DocumentResult) => doc._id);
+    const fullDocs = expandNeighbors === false
+        ? await convexClient.runQuery(internal.documents.fetchResults, { ids, userId })
+        : await convexClient.runQuery(internal.documents.expandNeighbors, { ids, userId });
     
     console.log(`📄 Fetched ${fullDocs.length} full documents`);
     
@@ -154,9 +191,7 @@ async function generateSubtopics(state: AgentState): Promise<Partial<AgentState>
     }
     
     // Build context from documents
-    const documentContext = fullDocs
-        .map((doc: any, i: number) => `[Document ${i + 1}]\n${doc.text}`)
-        .join("\n\n");
+    const documentContext = buildDocumentContext(fullDocs);
     
     const prompt = `Based on the following documents related to the query "${userQuery}", generate ${MIN_SUBTOPICS} to ${MAX_SUBTOPICS} distinct subtopics that can be used to create test questions.
 
@@ -165,13 +200,14 @@ Requirements:
 - Subtopics should be suitable for generating quiz questions
 - Cover diverse areas from the document content
 - Make subtopics clear and concise
+- When the documents are labelled with sections (e.g. "Chapter 3 > Safety Rules"), name each subtopic after the section it covers
 
 Documents:
 ${documentContext}
 
 Generate the subtopics as a JSON object with a "subtopics" array.`;
 
-    const structuredModel = model.withStructuredOutput(SubtopicsResponseSchema);
+    const structuredModel = getChatModel("subtopics").withStructuredOutput(SubtopicsResponseSchema);
     
     try {
         const response = await structuredModel.invoke([
@@ -201,9 +237,7 @@ async function generateQuestions(state: AgentState): Promise<Partial<AgentState>
     }
     
     // Build context from documents
-    const documentContext = fullDocs
-        .map((doc: any, i: number) => `[Document ${i + 1}]\n${doc.text}`)
-        .join("\n\n");
+    const documentContext = buildDocumentContext(fullDocs);
     
     const allQuestions: QuizQuestion[] = [];
     
@@ -220,6 +254,8 @@ Requirements:
 - Each question must be clear, specific, and based on information in the documents
 - Provide 4 options (A, B, C, D) with only one correct answer
 - Include a detailed explanation for the correct answer
+- End each explanation with its source as labelled in the documents, e.g. "(Chapter 3 > Safety Rules, p. 12–13)" or, for recordings, "(at 12:34)"
+- Set sourceDocument to the number of the document the correct answer comes from, e.g. 2 for "[Document 2: ...]"
 - Questions should test understanding, not just memorization
 - Vary difficulty levels across questions
 - Ensure all information is grounded in the provided documents
@@ -229,17 +265,18 @@ ${documentContext}
 
 Generate the questions as a JSON object with a "questions" array.`;
 
-        const structuredModel = model.withStructuredOutput(FullQuizResponseSchema);
+        const structuredModel = getChatModel("questions").withStructuredOutput(FullQuizResponseSchema);
         
         try {
             const response = await structuredModel.invoke([
                 new HumanMessage(prompt),
             ]);
             
-            // Add subtopic to each question
+            // Add subtopic and the cited chunk to each question
             const questionsWithSubtopic = response.questions.map(q => ({
                 ...q,
                 subtopic,
+                citation: citationFor(fullDocs, q.sourceDocument),
             }));
             
             allQuestions.push(...questionsWithSubtopic);
@@ -276,13 +313,31 @@ function buildGraph() {
 export const runDocumentRetrieval = action({
     args: {
         query: v.string(),
+        // Only use these files (default: all of the caller's documents)
+        fileNames: v.optional(v.array(v.string())),
+        // Only use documents of this collection (default: all of the caller's documents)
+        collectionId: v.optional(v.id("collections")),
+        // "vector", "keyword" or "hybrid" (default) retrieval, see documents.search
+        mode: v.optional(searchMode),
+        // Add the chunks around each hit to the documents (default: true)
+        expandNeighbors: v.optional(v.boolean()),
     },
     handler: async (ctx, args) => {
+        const userId = await requireUserId(ctx);
         const graph = buildGraph();
         
         const result = await graph.invoke(
             { userQuery: args.query },
-            { configurable: { convexClient: ctx } }
+            {
+                configurable: {
+                    convexClient: ctx,
+                    userId,
+                    fileNames: args.fileNames,
+                    collectionId: args.collectionId,
+                    searchMode: args.mode,
+                    expandNeighbors: args.expandNeighbors,
+                },
+            }
         );
         
         return {
@@ -0,0 +1,356 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema, { EMBEDDING_DIMENSIONS } from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+const POLICY_V1 = "The gym opens at 6am on weekdays.";
+const POLICY_V2 = "The gym opens at 7am on weekdays and 9am on weekends.";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("file versions", () => {
+  test("re-uploading a file replaces the previous version", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: POLICY_V1 });
+    const result = await asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: POLICY_V2,
+    });
+    expect(result).toMatchObject({ success: true, skipped: false, version: 2 });
+
+    // Old chunks are hidden immediately and deleted in the background
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "gym.txt" });
+    expect(docs.map((doc) => doc.text)).toEqual([POLICY_V2]);
+    const searchResults = await asUser.action(api.documents.vectorSearch, { query: "gym opens" });
+    expect(searchResults.map((r) => r._id)).toEqual(docs.map((doc) => doc._id));
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const stored = await t.run(async (ctx) => ctx.db.query("documents").collect());
+    expect(stored.map((doc) => doc.text)).toEqual([POLICY_V2]);
+
+    const files = await asUser.query(api.documents.getAllFiles, {});
+    expect(files).toMatchObject([{ fileName: "gym.txt", version: 2, chunks: 1 }]);
+  });
+
+  test("skips uploads whose content is unchanged", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: POLICY_V1 });
+    const result = await asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: POLICY_V1,
+    });
+
+    expect(result).toMatchObject({ success: true, skipped: true, version: 1, chunksCreated: 0 });
+    const docs = await t.run(async (ctx) => ctx.db.query("documents").collect());
+    expect(docs).toHaveLength(1);
+  });
+
+  test("rolls back to an earlier version through the ingestion pipeline", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    const upload = async (content: string) => {
+      const storageId = await t.run(async (ctx) =>
+        ctx.storage.store(new Blob([content], { type: "text/plain" }))
+      );
+      const result = await asUser.mutation(api.ingestion.startIngestion, {
+        storageId,
+        fileName: "gym.txt",
+        contentType: "text/plain",
+        size: content.length,
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      return result;
+    };
+
+    await upload(POLICY_V1);
+    await upload(POLICY_V2);
+    expect(await upload(POLICY_V2)).toMatchObject({ skipped: true, jobId: null, version: 2 });
+
+    const [file] = await asUser.query(api.documents.getAllFiles, {});
+    const rollback = await asUser.mutation(api.ingestion.rollbackToVersion, {
+      fileId: file.fileId,
+      version: 1,
+    });
+    expect(rollback.version).toBe(3);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "gym.txt" });
+    expect(docs.map((doc) => doc.text)).toEqual([POLICY_V1]);
+
+    const versions = await asUser.query(api.files.listVersions, { fileId: file.fileId });
+    expect(versions.map(({ version, active, restoredFrom }) => ({ version, active, restoredFrom }))).toEqual([
+      { version: 3, active: true, restoredFrom: 1 },
+      { version: 2, active: false, restoredFrom: undefined },
+      { version: 1, active: false, restoredFrom: undefined },
+    ]);
+
+    // Only the job of the active version stays in the file list
+    const jobs = await asUser.query(api.ingestion.listJobs, {});
+    expect(jobs.map((job) => job.version)).toEqual([3]);
+
+    await expect(
+      asUser.mutation(api.ingestion.rollbackToVersion, { fileId: file.fileId, version: 1 })
+    ).rejects.toThrow("same content as the active version");
+  });
+
+  test("removing a finished file deletes every version", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: POLICY_V1 });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: POLICY_V2 });
+
+    await asUser.mutation(api.documents.deleteByFileName, { fileName: "gym.txt" });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const remaining = await t.run(async (ctx) => ({
+      files: await ctx.db.query("files").collect(),
+      versions: await ctx.db.query("fileVersions").collect(),
+      documents: await ctx.db.query("documents").collect(),
+      embeddings: await ctx.db.query("chunkEmbeddings").collect(),
+      blobs: await ctx.db.system.query("_storage").collect(),
+    }));
+    expect(remaining).toEqual({ files: [], versions: [], documents: [], embeddings: [], blobs: [] });
+  });
+
+  test("a deleted file leaves search at once and its chunks in the background", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const content = "The gym opens at 6am on weekdays. ".repeat(200);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content });
+    const [file] = await asUser.query(api.documents.getAllFiles, {});
+    const result = await asUser.mutation(api.documents.deleteByFileName, { fileName: "gym.txt" });
+    expect(result).toEqual({ deleted: file.chunks });
+
+    expect(await asUser.action(api.documents.search, { query: "gym opens" })).toEqual([]);
+    expect(await asUser.query(api.documents.getAllFiles, {})).toEqual([]);
+    const listing = await asUser.query(api.files.listFiles, { paginationOpts: { numItems: 10, cursor: null } });
+    expect(listing.page.map((f) => f.status)).toEqual(["deleting"]);
+    await expect(
+      asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: POLICY_V1 })
+    ).resolves.toMatchObject({ success: false, error: expect.stringContaining("still being deleted") });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const remaining = await t.run(async (ctx) => ({
+      files: await ctx.db.query("files").collect(),
+      documents: await ctx.db.query("documents").collect(),
+    }));
+    expect(remaining).toEqual({ files: [], documents: [] });
+  });
+
+  test("rolls back an upload whose action never finished", async () => {
+    const t = convexTest(schema, modules);
+    const { userId, asUser } = await signInNewUser(t);
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([POLICY_V1], { type: "text/plain" })));
+
+    // An embedDocument run that stored a chunk and then died
+    const reserved = await t.mutation(internal.files.beginUpload, { userId, fileName: "gym.txt", storageId });
+    await t.mutation(internal.documents.addDocuments, {
+      userId,
+      fileId: reserved.fileId,
+      version: reserved.version,
+      embeddingModel: "local/hashing-v1",
+      chunks: [
+        {
+          text: POLICY_V1,
+          embedding: new Array(EMBEDDING_DIMENSIONS).fill(0.1),
+          metadata: { source: "gym.txt", fileName: "gym.txt", uploadedAt: "", chunkIndex: 0, totalChunks: 2 },
+        },
+      ],
+    });
+    expect(await asUser.action(api.documents.search, { query: "gym opens" })).toEqual([]);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const remaining = await t.run(async (ctx) => ({
+      documents: await ctx.db.query("documents").collect(),
+      blobs: await ctx.db.system.query("_storage").collect(),
+    }));
+    expect(remaining).toEqual({ documents: [], blobs: [] });
+    const listing = await asUser.query(api.files.listFiles, { paginationOpts: { numItems: 10, cursor: null } });
+    expect(listing.page.map((f) => f.status)).toEqual(["failed"]);
+  });
+
+  test("an upload that outlives its timeout is not activated", async () => {
+    const t = convexTest(schema, modules);
+    const { userId } = await signInNewUser(t);
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([POLICY_V1], { type: "text/plain" })));
+    const chunk = {
+      text: POLICY_V1,
+      embedding: new Array(EMBEDDING_DIMENSIONS).fill(0.1),
+      metadata: { source: "gym.txt", fileName: "gym.txt", uploadedAt: "", chunkIndex: 0, totalChunks: 2 },
+    };
+
+    // A slow embedDocument run that is still embedding when the timeout fires
+    const reserved = await t.mutation(internal.files.beginUpload, { userId, fileName: "gym.txt", storageId });
+    if (reserved.skipped) throw new Error("unexpected skip");
+    const upload = { userId, fileId: reserved.fileId, version: reserved.version, embeddingModel: "local/hashing-v1" };
+    await t.mutation(internal.documents.addDocuments, { ...upload, chunks: [chunk] });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const lateChunk = { ...chunk, metadata: { ...chunk.metadata, chunkIndex: 1 } };
+    await expect(t.mutation(internal.documents.addDocuments, { ...upload, chunks: [lateChunk] })).rejects.toThrow(
+      "rolled back"
+    );
+    await expect(
+      t.mutation(internal.files.finishUpload, {
+        fileId: reserved.fileId,
+        version: reserved.version,
+        contentHash: reserved.contentHash,
+        storageId,
+        contentType: "text/plain",
+        size: POLICY_V1.length,
+        uploadedAt: "",
+        totalChunks: 2,
+      })
+    ).rejects.toThrow("rolled back");
+
+    const remaining = await t.run(async (ctx) => ({
+      file: await ctx.db.get(reserved.fileId),
+      versions: await ctx.db.query("fileVersions").collect(),
+      documents: await ctx.db.query("documents").collect(),
+    }));
+    expect(remaining).toMatchObject({ file: { status: "failed" }, versions: [], documents: [] });
+    expect(remaining.file?.activeVersion).toBeUndefined();
+  });
+
+  test("listVersions rejects other users' files", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await signInNewUser(t);
+    const bob = await signInNewUser(t);
+
+    await alice.asUser.action(api.ragActions.embedDocument, { fileName: "gym.txt", content: POLICY_V1 });
+    const [file] = await alice.asUser.query(api.documents.getAllFiles, {});
+
+    await expect(
+      bob.asUser.query(api.files.listVersions, { fileId: file.fileId })
+    ).rejects.toThrow("File not found");
+  });
+});
+
+describe("file listing", () => {
+  test("ingestion keeps the listing summary in sync", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([POLICY_V1], { type: "text/plain" })));
+
+    await asUser.mutation(api.ingestion.startIngestion, {
+      storageId,
+      fileName: "gym.txt",
+      contentType: "text/plain",
+      size: POLICY_V1.length,
+    });
+    const listFirstPage = () =>
+      asUser.query(api.files.listFiles, { paginationOpts: { numItems: 10, cursor: null } });
+    expect((await listFirstPage()).page).toMatchObject([
+      { fileName: "gym.txt", status: "processing", size: POLICY_V1.length, contentType: "text/plain" },
+    ]);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const [file] = (await listFirstPage()).page;
+    expect(file).toMatchObject({ status: "ready", totalChunks: 1 });
+    expect(file.uploadedAt).toBeDefined();
+  });
+
+  test("latestJobs attaches one job to each file", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const other = await signInNewUser(t);
+    const upload = async (content: string) => {
+      const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([content], { type: "text/plain" })));
+      await asUser.mutation(api.ingestion.startIngestion, {
+        storageId,
+        fileName: "gym.txt",
+        contentType: "text/plain",
+        size: content.length,
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    };
+
+    await upload(POLICY_V1);
+    // A re-upload whose text cannot be extracted
+    await upload("   ");
+    const { page } = await asUser.query(api.files.listFiles, { paginationOpts: { numItems: 10, cursor: null } });
+    const jobs = await asUser.query(api.ingestion.latestJobs, { fileIds: page.map((file) => file._id) });
+
+    expect(page).toMatchObject([{ fileName: "gym.txt", activeVersion: 1, status: "failed" }]);
+    expect(jobs.map(({ version, status }) => ({ version, status }))).toEqual([{ version: 2, status: "failed" }]);
+    expect(await other.asUser.query(api.ingestion.latestJobs, { fileIds: [page[0]._id] })).toEqual([]);
+  });
+
+  test("sorts, searches and paginates the caller's files", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const other = await signInNewUser(t);
+
+    await asUser.action(api.ragActions.embedDocument, { fileName: "b handbook.txt", content: POLICY_V2 });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "a notes.txt", content: POLICY_V1 });
+    await asUser.action(api.ragActions.embedDocument, { fileName: "c handbook.txt", content: POLICY_V1 });
+    await other.asUser.action(api.ragActions.embedDocument, { fileName: "d handbook.txt", content: POLICY_V1 });
+
+    const byName = await asUser.query(api.files.listFiles, {
+      paginationOpts: { numItems: 2, cursor: null },
+      sortBy: "name",
+      order: "asc",
+    });
+    expect(byName.page.map((file) => file.fileName)).toEqual(["a notes.txt", "b handbook.txt"]);
+    const nextPage = await asUser.query(api.files.listFiles, {
+      paginationOpts: { numItems: 2, cursor: byName.continueCursor },
+      sortBy: "name",
+      order: "asc",
+    });
+    expect(nextPage.page.map((file) => file.fileName)).toEqual(["c handbook.txt"]);
+
+    const bySize = await asUser.query(api.files.listFiles, {
+      paginationOpts: { numItems: 10, cursor: null },
+      sortBy: "size",
+    });
+    expect(bySize.page[0].fileName).toBe("b handbook.txt");
+
+    const found = await asUser.query(api.files.listFiles, {
+      paginationOpts: { numItems: 10, cursor: null },
+      search: "handbook",
+    });
+    expect(found.page.map((file) => file.fileName).sort()).toEqual(["b handbook.txt", "c handbook.txt"]);
+  });
+
+  test("lists a collection's files in full pages", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const manuals = await asUser.mutation(api.collections.create, { name: "Manuals" });
+    for (const fileName of ["a.txt", "b.txt", "c.txt", "d.txt", "e.txt"]) {
+      await asUser.action(api.ragActions.embedDocument, { fileName, content: `${fileName} ${POLICY_V1}` });
+    }
+    const all = await asUser.query(api.files.listFiles, { paginationOpts: { numItems: 10, cursor: null } });
+    for (const file of all.page.filter((file) => ["b.txt", "d.txt", "e.txt"].includes(file.fileName))) {
+      await asUser.mutation(api.collections.assignFile, { fileId: file._id, collectionId: manuals });
+    }
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const listPage = (cursor: string | null) =>
+      asUser.query(api.files.listFiles, {
+        paginationOpts: { numItems: 2, cursor },
+        sortBy: "name",
+        order: "asc",
+        collectionId: manuals,
+      });
+    const first = await listPage(null);
+    const second = await listPage(first.continueCursor);
+
+    expect(first.page.map((file) => file.fileName)).toEqual(["b.txt", "d.txt"]);
+    expect(second.page.map((file) => file.fileName)).toEqual(["e.txt"]);
+    expect(second.isDone).toBe(true);
+  });
+});
@@ -0,0 +1,724 @@
+/**
+ * File Versioning Module
+ *
+ * A `files` row exists once per user and file name, and every upload of that
+ * name reserves the next version number. Chunks are tagged with their file
+ * and version, and search only serves chunks of the file's `activeVersion`:
+ *
+ *   upload v2 → chunks of v2 are stored (hidden) → activeVersion = 2 → v1 chunks deleted
+ *
+ * Switching `activeVersion` is a single write, so a re-upload replaces the
+ * old version atomically and search never sees a mix of both. An upload whose
+ * content hash matches the active version (or a version still being ingested)
+ * is skipped without embedding anything.
+ *
+ * Every ingested version keeps its raw upload in file storage and a
+ * `fileVersions` row, so users can list earlier versions and roll back. A
+ * rollback re-ingests the old upload as a new version number (see
+ * ingestion.rollbackToVersion), which keeps version numbers from ever being
+ * reused while old chunks are still being deleted.
+ *
+ * Each `files` row also carries a listing summary (status, chunk count, size,
+ * content type and upload time) that ingestion keeps up to date through
+ * refreshFileSummary, so file lists are served from this table alone with
+ * sorting, name search and pagination (see listFiles).
+ *
+ * Deleting a file hides it from search at once and removes its chunks in the
+ * background (see deleteFile and purgeFile), so files of any size can be
+ * deleted without hitting mutation limits. Until then the file is listed
+ * with status "deleting".
+ *
+ * @module files
+ */
+
+import { v, Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, internalQuery, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { deleteChunk, requireUserId } from "./documents";
+import { invalidateAnswers } from "./answerCache";
+import { forgetEmbedding } from "./embeddingCache";
+
+/**
+ * Number of chunks deleted per scheduled deleteVersionChunks or purgeFile run
+ */
+const DELETE_BATCH_SIZE = 200;
+
+/**
+ * Time after which an upload made through embedDocument that has not finished
+ * is rolled back, longer than an action can run
+ */
+const UPLOAD_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Number of files updated per scheduled backfillSummaries run
+ */
+const BACKFILL_BATCH_SIZE = 100;
+
+/**
+ * Columns a file listing can be sorted by
+ */
+export const fileSort = v.union(
+  v.literal("name"),
+  v.literal("uploadedAt"),
+  v.literal("size"),
+  v.literal("chunks")
+);
+export type FileSort = Infer<typeof fileSort>;
+
+// Index serving each sort column; all of them start with userId
+const SORT_INDEXES = {
+  name: "by_userId_fileName",
+  uploadedAt: "by_userId_uploadedAt",
+  size: "by_userId_size",
+  chunks: "by_userId_totalChunks",
+} as const;
+
+// Index serving each sort column within one collection
+const COLLECTION_SORT_INDEXES = {
+  name: "by_userId_collectionId_fileName",
+  uploadedAt: "by_userId_collectionId_uploadedAt",
+  size: "by_userId_collectionId_size",
+  chunks: "by_userId_collectionId_totalChunks",
+} as const;
+
+/**
+ * Look up a user's file by name
+ *
+ * @param ctx - Query or mutation context
+ * @param userId - Owner of the file
+ * @param fileName - Name of the file
+ * @returns The file, or null if the user never uploaded that name
+ */
+export async function getFileByName(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  fileName: string
+): Promise<Doc<"files"> | null> {
+  return await ctx.db
+    .query("files")
+    .withIndex("by_userId_fileName", (q) => q.eq("userId", userId).eq("fileName", fileName))
+    .unique();
+}
+
+/**
+ * Load a single version of a file
+ *
+ * @param ctx - Query or mutation context
+ * @param fileId - The file
+ * @param version - Version number to load
+ * @returns The version, or null if it was never ingested
+ */
+export async function getVersion(
+  ctx: QueryCtx,
+  fileId: Id<"files">,
+  version: number
+): Promise<Doc<"fileVersions"> | null> {
+  return await ctx.db
+    .query("fileVersions")
+    .withIndex("by_fileId_version", (q) => q.eq("fileId", fileId).eq("version", version))
+    .unique();
+}
+
+/**
+ * Load the pending upload of a version reserved by beginUpload
+ *
+ * @param ctx - Query or mutation context
+ * @param fileId - The file
+ * @param version - The reserved version
+ * @returns The pending upload, or null once the version was activated or
+ *   rolled back
+ */
+async function getPendingUpload(
+  ctx: QueryCtx,
+  fileId: Id<"files">,
+  version: number
+): Promise<Doc<"pendingUploads"> | null> {
+  return await ctx.db
+    .query("pendingUploads")
+    .withIndex("by_fileId_version", (q) => q.eq("fileId", fileId).eq("version", version))
+    .unique();
+}
+
+/**
+ * Check that a version reserved by beginUpload can still take chunks
+ *
+ * @param ctx - Query or mutation context
+ * @param fileId - The file
+ * @param version - The reserved version
+ * @returns The pending upload
+ *
+ * @throws Error if the version was rolled back, e.g. by the timeout
+ *   scheduled in beginUpload or because the file was deleted
+ */
+export async function requirePendingUpload(
+  ctx: QueryCtx,
+  fileId: Id<"files">,
+  version: number
+): Promise<Doc<"pendingUploads">> {
+  const pending = await getPendingUpload(ctx, fileId, version);
+  if (pending === null) {
+    throw new Error(`Version ${version} was rolled back before its upload finished`);
+  }
+  return pending;
+}
+
+/**
+ * Reserve the next version of a file for a fresh upload
+ *
+ * Creates the `files` row on first upload. The content hash is read from the
+ * storage metadata of the upload, and the upload is skipped when it matches
+ * the active version or a version that is still being ingested.
+ *
+ * @param ctx - Mutation context
+ * @param userId - Owner of the file
+ * @param fileName - Name of the uploaded file
+ * @param storageId - Raw upload in file storage
+ *
+ * @returns Either the reserved version and content hash, or `skipped: true`
+ *   with the version that already has this content
+ *
+ * @throws Error if the upload is missing from storage
+ */
+export async function reserveVersion(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  fileName: string,
+  storageId: Id<"_storage">
+): Promise<
+  | { skipped: true; fileId: Id<"files">; version: number }
+  | { skipped: false; fileId: Id<"files">; version: number; contentHash: string }
+> {
+  const metadata = await ctx.db.system.get(storageId);
+  if (metadata === null) {
+    throw new Error("Uploaded file is missing from storage");
+  }
+  const contentHash = metadata.sha256;
+
+  const file = await getFileByName(ctx, userId, fileName);
+  if (file?.status === "deleting") {
+    throw new Error(`"${fileName}" is still being deleted, please upload it again in a moment`);
+  }
+  if (file === null) {
+    const fileId = await ctx.db.insert("files", { userId, fileName, latestVersion: 1 });
+    return { skipped: false, fileId, version: 1, contentHash };
+  }
+
+  if (file.activeVersion !== undefined) {
+    const active = await getVersion(ctx, file._id, file.activeVersion);
+    if (active?.contentHash === contentHash) {
+      return { skipped: true, fileId: file._id, version: active.version };
+    }
+  }
+
+  const jobs = await ctx.db
+    .query("ingestionJobs")
+    .withIndex("by_fileId", (q) => q.eq("fileId", file._id))
+    .collect();
+  const inFlight = jobs.find(
+    (job) => job.status !== "done" && job.status !== "failed" && job.contentHash === contentHash
+  );
+  if (inFlight) {
+    return { skipped: true, fileId: file._id, version: inFlight.version };
+  }
+
+  const version = file.latestVersion + 1;
+  await ctx.db.patch(file._id, { latestVersion: version });
+  return { skipped: false, fileId: file._id, version, contentHash };
+}
+
+/**
+ * Record a fully ingested version and make it the one served by search
+ *
+ * The previously active version's chunks are deleted in the background; its
+ * `fileVersions` row and raw upload are kept for rollback. A version that
+ * finishes after a newer one has already been activated is recorded but not
+ * activated, and its chunks are deleted instead. Nothing is activated on a
+ * file that is being deleted.
+ *
+ * @param ctx - Mutation context
+ * @param version - The ingested version, with the upload it was built from
+ *
+ * @returns Whether the version became the active one
+ */
+export async function activateVersion(
+  ctx: MutationCtx,
+  version: Omit<Doc<"fileVersions">, "_id" | "_creationTime">
+): Promise<boolean> {
+  const file = await ctx.db.get(version.fileId);
+  if (file === null || file.status === "deleting") {
+    return false;
+  }
+
+  await ctx.db.insert("fileVersions", version);
+
+  const previous = file.activeVersion;
+  if (previous !== undefined && previous > version.version) {
+    await ctx.scheduler.runAfter(0, internal.files.deleteVersionChunks, {
+      fileId: file._id,
+      version: version.version,
+    });
+    return false;
+  }
+
+  await ctx.db.patch(file._id, { activeVersion: version.version });
+  await invalidateAnswers(ctx, file.userId);
+  if (previous !== undefined) {
+    await ctx.scheduler.runAfter(0, internal.files.deleteVersionChunks, {
+      fileId: file._id,
+      version: previous,
+    });
+  }
+  console.log(`📌 ${file.fileName} is now at version ${version.version}`);
+  return true;
+}
+
+/**
+ * Bring the listing summary of a file up to date
+ *
+ * Derives the summary from the active version and the file's ingestion jobs:
+ * the file is "processing" while a job or an upload made through
+ * embedDocument (see beginUpload) is in flight, "failed" when its newest job
+ * failed or it has no active version, and "ready" otherwise. Called by
+ * ingestion after every step that starts, finishes, fails or removes an
+ * upload. A file that is being deleted keeps its "deleting" status.
+ *
+ * @param ctx - Mutation context
+ * @param fileId - The file
+ */
+export async function refreshFileSummary(ctx: MutationCtx, fileId: Id<"files">): Promise<void> {
+  const file = await ctx.db.get(fileId);
+  if (file === null || file.status === "deleting") {
+    return;
+  }
+
+  const active = file.activeVersion !== undefined ? await getVersion(ctx, fileId, file.activeVersion) : null;
+  const jobs = await ctx.db
+    .query("ingestionJobs")
+    .withIndex("by_fileId", (q) => q.eq("fileId", fileId))
+    .collect();
+  const newest = jobs.reduce<Doc<"ingestionJobs"> | null>(
+    (latest, job) => (latest === null || job._creationTime > latest._creationTime ? job : latest),
+    null
+  );
+  const uploading = await ctx.db
+    .query("pendingUploads")
+    .withIndex("by_fileId_version", (q) => q.eq("fileId", fileId))
+    .first();
+
+  let status: Doc<"files">["status"] = "ready";
+  if (uploading !== null || jobs.some((job) => job.status !== "done" && job.status !== "failed")) {
+    status = "processing";
+  } else if (newest?.status === "failed" || active === null) {
+    status = "failed";
+  }
+
+  // ISO timestamps sort chronologically
+  const uploads = [active?.uploadedAt, newest?.uploadedAt, file.uploadedAt].filter(
+    (uploadedAt): uploadedAt is string => uploadedAt !== undefined
+  );
+  await ctx.db.patch(fileId, {
+    status,
+    totalChunks: active?.totalChunks,
+    size: active?.size ?? newest?.size ?? file.size,
+    contentType: active?.contentType ?? newest?.contentType ?? file.contentType,
+    uploadedAt: uploads.sort().at(-1),
+  });
+}
+
+/**
+ * Delete a file with every version, chunk, job and stored blob
+ *
+ * The file leaves search immediately: its active version is cleared and its
+ * status set to "deleting". Versions, jobs, pending uploads and stored blobs
+ * are deleted right away, which also stops any ingestion still running for
+ * the file. The
+ * chunks, which can be too many for one mutation, are deleted in the
+ * background by purgeFile, which deletes the file last.
+ *
+ * @param ctx - Mutation context
+ * @param file - The file to delete
+ * @returns The number of chunks of the active version, which are deleted in
+ *   the background
+ */
+export async function deleteFile(ctx: MutationCtx, file: Doc<"files">): Promise<number> {
+  if (file.status === "deleting") {
+    return 0;
+  }
+  await ctx.db.patch(file._id, { status: "deleting", activeVersion: undefined });
+  await invalidateAnswers(ctx, file.userId);
+
+  // Rollback jobs share the raw upload of the version they restore
+  const storageIds = new Set<Id<"_storage">>();
+  const versions = await ctx.db
+    .query("fileVersions")
+    .withIndex("by_fileId_version", (q) => q.eq("fileId", file._id))
+    .collect();
+  for (const version of versions) {
+    storageIds.add(version.storageId);
+    await ctx.db.delete(version._id);
+  }
+
+  const jobs = await ctx.db
+    .query("ingestionJobs")
+    .withIndex("by_fileId", (q) => q.eq("fileId", file._id))
+    .collect();
+  for (const job of jobs) {
+    for (const storageId of [job.storageId, job.textStorageId, job.chunksStorageId]) {
+      if (storageId) {
+        storageIds.add(storageId);
+      }
+    }
+    await ctx.db.delete(job._id);
+  }
+
+  const uploads = await ctx.db
+    .query("pendingUploads")
+    .withIndex("by_fileId_version", (q) => q.eq("fileId", file._id))
+    .collect();
+  for (const upload of uploads) {
+    storageIds.add(upload.storageId);
+    await ctx.db.delete(upload._id);
+  }
+
+  for (const storageId of storageIds) {
+    await ctx.storage.delete(storageId);
+  }
+  await ctx.scheduler.runAfter(0, internal.files.purgeFile, { fileId: file._id });
+
+  return file.activeVersion !== undefined ? (file.totalChunks ?? 0) : 0;
+}
+
+/**
+ * Reserve a version for an upload made through embedDocument
+ *
+ * Deletes the upload again when its content is unchanged. Otherwise the
+ * version is recorded in `pendingUploads` and stays hidden from search until
+ * finishUpload activates it or discardVersion rolls it back. The rollback is
+ * also scheduled to run after UPLOAD_TIMEOUT_MS, so a version whose action
+ * died halfway never leaves partial chunks behind. A rolled back version
+ * takes no more chunks and cannot be activated, so an action that was merely
+ * slow fails instead of activating a version without its upload.
+ *
+ * @param userId - Owner of the file
+ * @param fileName - Name of the uploaded file
+ * @param storageId - The document text stored by embedDocument
+ *
+ * @returns The result of reserveVersion
+ */
+export const beginUpload = internalMutation({
+  args: {
+    userId: v.id("users"),
+    fileName: v.string(),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const reserved = await reserveVersion(ctx, args.userId, args.fileName, args.storageId);
+    if (reserved.skipped) {
+      await ctx.storage.delete(args.storageId);
+    } else {
+      await ctx.db.insert("pendingUploads", {
+        fileId: reserved.fileId,
+        version: reserved.version,
+        storageId: args.storageId,
+      });
+      await ctx.db.patch(reserved.fileId, { uploadedAt: new Date().toISOString() });
+      await refreshFileSummary(ctx, reserved.fileId);
+      await ctx.scheduler.runAfter(UPLOAD_TIMEOUT_MS, internal.files.discardVersion, {
+        fileId: reserved.fileId,
+        version: reserved.version,
+      });
+    }
+    return reserved;
+  },
+});
+
+/**
+ * Activate a version uploaded through embedDocument once all its chunks are stored
+ *
+ * @param version - The ingested version, see activateVersion
+ *
+ * @throws Error if the version was already rolled back, see requirePendingUpload
+ */
+export const finishUpload = internalMutation({
+  args: {
+    fileId: v.id("files"),
+    version: v.number(),
+    contentHash: v.string(),
+    storageId: v.id("_storage"),
+    contentType: v.string(),
+    size: v.number(),
+    uploadedAt: v.string(),
+    totalChunks: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const pending = await requirePendingUpload(ctx, args.fileId, args.version);
+    await ctx.db.delete(pending._id);
+    const activated = await activateVersion(ctx, args);
+    await refreshFileSummary(ctx, args.fileId);
+    return activated;
+  },
+});
+
+/**
+ * Throw away a version whose upload failed before it was activated
+ *
+ * Deletes its pending upload and raw upload; its chunks are already hidden
+ * from search and are deleted in the background. Does nothing once the
+ * version has finished or was already discarded, so it is safe to run again
+ * (see beginUpload).
+ *
+ * @param fileId - The file
+ * @param version - The failed version
+ */
+export const discardVersion = internalMutation({
+  args: {
+    fileId: v.id("files"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const pending = await getPendingUpload(ctx, args.fileId, args.version);
+    if (pending === null) {
+      return;
+    }
+    console.log(`↩️  Rolling back version ${args.version} of file ${args.fileId}`);
+    await ctx.db.delete(pending._id);
+    await ctx.storage.delete(pending.storageId);
+    await ctx.scheduler.runAfter(0, internal.files.deleteVersionChunks, {
+      fileId: args.fileId,
+      version: args.version,
+    });
+    await refreshFileSummary(ctx, args.fileId);
+  },
+});
+
+/**
+ * Delete the chunks of one version in batches
+ *
+ * Runs after a version has been replaced or discarded. Those chunks are
+ * already excluded from search, so there is no hurry; each run deletes up to
+ * DELETE_BATCH_SIZE chunks and reschedules itself until none are left.
+ *
+ * @param fileId - The file
+ * @param version - The version whose chunks should be deleted
+ */
+export const deleteVersionChunks = internalMutation({
+  args: {
+    fileId: v.id("files"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const docs = await ctx.db
+      .query("documents")
+      .withIndex("by_fileId_version_chunkIndex", (q) =>
+        q.eq("fileId", args.fileId).eq("version", args.version)
+      )
+      .take(DELETE_BATCH_SIZE);
+    for (const doc of docs) {
+      await deleteChunk(ctx, doc);
+    }
+
+    if (docs.length === DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.files.deleteVersionChunks, args);
+    }
+  },
+});
+
+/**
+ * Delete the chunks of a file that is being deleted in batches, then the file
+ *
+ * Scheduled by deleteFile. Each run deletes up to DELETE_BATCH_SIZE chunks of
+ * any version, together with their cached vectors (see
+ * embeddingCache.forgetEmbedding), and reschedules itself until none are
+ * left, so a deletion that is interrupted resumes where it stopped.
+ *
+ * @param fileId - The file being deleted
+ */
+export const purgeFile = internalMutation({
+  args: { fileId: v.id("files") },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.fileId);
+    if (file === null || file.status !== "deleting") {
+      return;
+    }
+
+    const docs = await ctx.db
+      .query("documents")
+      .withIndex("by_fileId_version_chunkIndex", (q) => q.eq("fileId", args.fileId))
+      .take(DELETE_BATCH_SIZE);
+    for (const doc of docs) {
+      await forgetEmbedding(ctx, doc);
+      await deleteChunk(ctx, doc);
+    }
+
+    if (docs.length === DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.files.purgeFile, args);
+      return;
+    }
+    await ctx.db.delete(file._id);
+    console.log(`🗑️  Deleted ${file.fileName}`);
+  },
+});
+
+/**
+ * Get download URLs for the active version of several files
+ *
+ * Used by ragChat to link each source to its original upload, e.g. a PDF
+ * opened at the cited page.
+ *
+ * @param fileIds - Files to look up
+ * @param userId - Owner the files must belong to
+ * @returns One entry per file that exists, belongs to `userId` and has an
+ *   active version
+ */
+export const getDownloadUrls = internalQuery({
+  args: {
+    fileIds: v.array(v.id("files")),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const urls = [];
+    for (const fileId of args.fileIds) {
+      const file = await ctx.db.get(fileId);
+      if (file === null || file.userId !== args.userId || file.activeVersion === undefined) {
+        continue;
+      }
+      const version = await getVersion(ctx, fileId, file.activeVersion);
+      const url = version ? await ctx.storage.getUrl(version.storageId) : null;
+      if (url !== null) {
+        urls.push({ fileId, url });
+      }
+    }
+    return urls;
+  },
+});
+
+/**
+ * List the ingested versions of one of the caller's files, newest first
+ *
+ * @param fileId - The file
+ *
+ * @returns Versions with their upload time, size, chunk count, whether they
+ *   are active and which version they were restored from
+ *
+ * @throws Error if the file does not belong to the caller
+ *
+ * @example
+ * ```typescript
+ * const versions = useQuery(api.files.listVersions, { fileId });
+ * ```
+ */
+export const listVersions = query({
+  args: { fileId: v.id("files") },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const file = await ctx.db.get(args.fileId);
+    if (file === null || file.userId !== userId) {
+      throw new Error("File not found");
+    }
+
+    const versions = await ctx.db
+      .query("fileVersions")
+      .withIndex("by_fileId_version", (q) => q.eq("fileId", args.fileId))
+      .order("desc")
+      .collect();
+    return versions.map((version) => ({
+      _id: version._id,
+      version: version.version,
+      uploadedAt: version.uploadedAt,
+      size: version.size,
+      totalChunks: version.totalChunks,
+      restoredFrom: version.restoredFrom,
+      active: version.version === file.activeVersion,
+    }));
+  },
+});
+
+/**
+ * List the caller's files a page at a time
+ *
+ * Served from the `files` table alone: every row carries its listing summary,
+ * so no versions or chunks are read. A collection is listed through its own
+ * sort indexes, so its pages are full as well. With a search term, files are
+ * matched by name through the full-text index and come back by relevance
+ * instead of the requested order.
+ *
+ * @param paginationOpts - Page size and cursor, see usePaginatedQuery
+ * @param sortBy - "name", "uploadedAt" (default), "size" or "chunks"
+ * @param order - "asc" or "desc" (default)
+ * @param search - Optional terms to match against file names
+ * @param collectionId - Optional collection to list
+ *
+ * @returns A page of files with their status, chunk count, size, content
+ *   type, upload time and uploader (`userId`)
+ *
+ * @example
+ * ```typescript
+ * const { results, status, loadMore } = usePaginatedQuery(
+ *   api.files.listFiles,
+ *   { sortBy: "name", order: "asc", search: "handbook" },
+ *   { initialNumItems: 20 }
+ * );
+ * ```
+ */
+export const listFiles = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    sortBy: v.optional(fileSort),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+    search: v.optional(v.string()),
+    collectionId: v.optional(v.id("collections")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const search = args.search?.trim();
+    if (search) {
+      return await ctx.db
+        .query("files")
+        .withSearchIndex("search_fileName", (q) => {
+          const byName = q.search("fileName", search).eq("userId", userId);
+          return args.collectionId ? byName.eq("collectionId", args.collectionId) : byName;
+        })
+        .paginate(args.paginationOpts);
+    }
+
+    const sortBy = args.sortBy ?? "uploadedAt";
+    const collectionId = args.collectionId;
+    const files = collectionId
+      ? ctx.db
+          .query("files")
+          .withIndex(COLLECTION_SORT_INDEXES[sortBy], (q) => q.eq("userId", userId).eq("collectionId", collectionId))
+      : ctx.db.query("files").withIndex(SORT_INDEXES[sortBy], (q) => q.eq("userId", userId));
+    return await files.order(args.order ?? "desc").paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Fill in the listing summary of files created before it existed
+ *
+ * Walks the files table BACKFILL_BATCH_SIZE rows at a time and reschedules
+ * itself until the end. Safe to run more than once.
+ *
+ * @param cursor - Position to continue from, or null to start
+ *
+ * @example
+ * ```bash
+ * npx convex run files:backfillSummaries '{"cursor": null}'
+ * ```
+ */
+export const backfillSummaries = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("files")
+      .paginate({ cursor: args.cursor, numItems: BACKFILL_BATCH_SIZE });
+    for (const file of page.page) {
+      await refreshFileSummary(ctx, file._id);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.files.backfillSummaries, { cursor: page.continueCursor });
+    }
+  },
+});
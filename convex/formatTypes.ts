@@ -0,0 +1,66 @@
+/**
+ * Document Format Types Module
+ *
+ * The formats the ingestion pipeline accepts and how an upload is matched to
+ * one. This module has no dependencies, so the upload page can check files
+ * and list the supported extensions without bundling the converters in
+ * formats.ts.
+ *
+ * @module formatTypes
+ */
+
+/**
+ * Formats the ingestion pipeline can extract text from
+ */
+export type DocumentFormat = "pdf" | "docx" | "html" | "csv" | "json" | "subtitles" | "text";
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".html": "html",
+  ".htm": "html",
+  ".csv": "csv",
+  ".json": "json",
+  ".srt": "subtitles",
+  ".vtt": "subtitles",
+  ".txt": "text",
+  ".md": "text",
+  ".markdown": "text",
+};
+
+const FORMATS_BY_CONTENT_TYPE: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/html": "html",
+  "text/csv": "csv",
+  "application/json": "json",
+  "text/vtt": "subtitles",
+  "application/x-subrip": "subtitles",
+};
+
+/**
+ * File extensions accepted for upload
+ */
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION);
+
+/**
+ * Detect the format of an uploaded file
+ *
+ * The file extension wins over the MIME type, since browsers report an empty
+ * or generic type for many files. Any other `text/*` type is read as plain
+ * text.
+ *
+ * @param fileName - Original name of the file
+ * @param contentType - MIME type reported by the browser
+ * @returns The format, or null if the file cannot be ingested
+ */
+export function detectFormat(fileName: string, contentType: string): DocumentFormat | null {
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return (
+    FORMATS_BY_EXTENSION[extension] ??
+    FORMATS_BY_CONTENT_TYPE[type] ??
+    (type.startsWith("text/") ? "text" : null)
+  );
+}
@@ -0,0 +1,234 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { chunkDocument, formatTimestamp, RECORD_BREAK } from "./chunking";
+import { csvToText, detectFormat, htmlToText, jsonToText, parseSubtitles, subtitlesToText } from "./formats";
+import { setChatScript } from "./models";
+import schema from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+
+const TRANSCRIPT = `WEBVTT
+
+NOTE recorded at the onboarding session
+
+intro
+00:00.000 --> 00:04.500 align:start
+<v Anna>Welcome to the <b>workshop</b> tour.
+
+00:30.000 --> 00:33.000
+Tools live in the blue cabinet.
+
+00:01:05.250 --> 00:01:09.000
+Always wear a helmet &amp; goggles.
+`;
+
+const records = (text: string) =>
+  text
+    .split(RECORD_BREAK)
+    .map((record) => record.trim())
+    .filter((record) => record.length > 0);
+
+describe("detectFormat", () => {
+  test("prefers the extension over the MIME type", () => {
+    expect(detectFormat("Report.DOCX", "application/octet-stream")).toBe("docx");
+    expect(detectFormat("data.csv", "application/vnd.ms-excel")).toBe("csv");
+    expect(detectFormat("export", "text/html; charset=utf-8")).toBe("html");
+    expect(detectFormat("notes.log", "text/plain")).toBe("text");
+  });
+
+  test("rejects unsupported files", () => {
+    expect(detectFormat("budget.xlsx", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")).toBeNull();
+    expect(detectFormat("legacy.doc", "application/msword")).toBeNull();
+    expect(detectFormat("photo.png", "")).toBeNull();
+  });
+});
+
+describe("csvToText", () => {
+  test("turns every row into a record labelled with the header", () => {
+    const csv = 'name,role,notes\r\nAlice,Admin,"Owns billing, invoices"\r\nBob,,"Says ""hi""\ntwice"\r\n';
+
+    expect(records(csvToText(csv))).toEqual([
+      "name: Alice\nrole: Admin\nnotes: Owns billing, invoices",
+      'name: Bob\nnotes: Says "hi"\ntwice',
+    ]);
+  });
+});
+
+describe("jsonToText", () => {
+  test("turns array items into records and object lists into sections", () => {
+    const json = JSON.stringify({
+      company: "Acme",
+      address: { city: "Berlin" },
+      employees: [
+        { name: "Alice", skills: ["sql", "go"] },
+        { name: "Bob", manager: { name: "Alice" } },
+      ],
+    });
+    const text = jsonToText(json);
+
+    expect(text.startsWith("company: Acme\naddress.city: Berlin\n\n# employees")).toBe(true);
+    expect(records(text).slice(1)).toEqual(["name: Alice\nskills: sql, go", "name: Bob\nmanager.name: Alice"]);
+  });
+
+  test("rejects invalid JSON", () => {
+    expect(() => jsonToText("{ nope")).toThrow("The file is not valid JSON");
+  });
+});
+
+describe("htmlToText", () => {
+  test("keeps headings, paragraphs and lists and drops scripts", () => {
+    const html = `<html><head><title>Ignored</title><style>p { color: red }</style></head><body>
+      <h1>Handbook</h1><p>Welcome &amp; hello.</p><script>track()</script>
+      <h2>Safety   Rules</h2><ul><li>Wear a <b>helmet</b></li><li>No running</li></ul>
+    </body></html>`;
+
+    expect(htmlToText(html)).toBe(
+      "# Handbook\n\nWelcome & hello.\n\n## Safety Rules\n\n- Wear a helmet\n\n- No running"
+    );
+  });
+
+  test("turns table rows into records", () => {
+    const html = `<h2>Prices</h2><table>
+      <thead><tr><th>Plan</th><th>Price</th></tr></thead>
+      <tbody><tr><td>Basic</td><td>10€</td></tr><tr><td>Pro</td><td>20€</td></tr></tbody>
+    </table><p>Prices include tax.</p>`;
+
+    expect(records(htmlToText(html))).toEqual([
+      "## Prices",
+      "Plan: Basic\nPrice: 10€",
+      "Plan: Pro\nPrice: 20€",
+      "Prices include tax.",
+    ]);
+  });
+});
+
+describe("parseSubtitles", () => {
+  test("parses WebVTT cues and strips markup", () => {
+    expect(parseSubtitles(TRANSCRIPT)).toEqual([
+      { start: 0, end: 4.5, text: "Anna: Welcome to the workshop tour." },
+      { start: 30, end: 33, text: "Tools live in the blue cabinet." },
+      { start: 65.25, end: 69, text: "Always wear a helmet & goggles." },
+    ]);
+  });
+
+  test("parses SRT cues", () => {
+    const srt = "1\r\n00:12:34,500 --> 00:12:36,000\r\nFirst line\r\nsecond line\r\n\r\n2\r\n01:00:00,000 --> 01:00:01,000\r\nBye\r\n";
+
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 754.5, end: 756, text: "First line second line" },
+      { start: 3600, end: 3601, text: "Bye" },
+    ]);
+  });
+
+  test("rejects files without cues", () => {
+    expect(() => subtitlesToText("WEBVTT\n\n")).toThrow("The file contains no subtitle cues");
+  });
+});
+
+describe("formatTimestamp", () => {
+  test("formats minutes and hours", () => {
+    expect(formatTimestamp(754.5)).toBe("12:34");
+    expect(formatTimestamp(5)).toBe("0:05");
+    expect(formatTimestamp(3723)).toBe("1:02:03");
+  });
+});
+
+describe("chunking structured documents", () => {
+  test("chunks transcripts by time window", async () => {
+    const chunks = await chunkDocument(subtitlesToText(TRANSCRIPT));
+
+    expect(chunks).toEqual([
+      {
+        text: "Anna: Welcome to the workshop tour.\nTools live in the blue cabinet.",
+        headingPath: [],
+        startTime: 0,
+        endTime: 33,
+        overlap: 0,
+      },
+      { text: "Always wear a helmet & goggles.", headingPath: [], startTime: 65.25, endTime: 69, overlap: 0 },
+    ]);
+  });
+
+  test("chunks every record on its own within its section", async () => {
+    const chunks = await chunkDocument(
+      htmlToText("<h2>Prices</h2><table><tr><th>Plan</th><th>Price</th></tr><tr><td>Basic</td><td>10€</td></tr><tr><td>Pro</td><td>20€</td></tr></table>")
+    );
+
+    expect(chunks).toEqual([
+      { text: "Plan: Basic\nPrice: 10€", headingPath: ["Prices"], sectionTitle: "Prices", overlap: 0 },
+      { text: "Plan: Pro\nPrice: 20€", headingPath: ["Prices"], sectionTitle: "Prices", overlap: 0 },
+    ]);
+  });
+});
+
+describe("ingesting structured files", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setChatScript("chat", undefined);
+  });
+
+  test("stores one chunk per CSV row", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const csv = "name,role\nAlice,Admin\nBob,Editor\n";
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([csv], { type: "text/csv" })));
+
+    await asUser.mutation(api.ingestion.startIngestion, {
+      storageId,
+      fileName: "team.csv",
+      contentType: "text/csv",
+      size: csv.length,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "team.csv" });
+    expect(docs.map((doc) => doc.text)).toEqual(["name: Alice\nrole: Admin", "name: Bob\nrole: Editor"]);
+  });
+
+  test("cites transcript chunks by timestamp", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob([TRANSCRIPT], { type: "text/vtt" })));
+
+    await asUser.mutation(api.ingestion.startIngestion, {
+      storageId,
+      fileName: "onboarding.vtt",
+      contentType: "text/vtt",
+      size: TRANSCRIPT.length,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    let prompt = "";
+    setChatScript("chat", (messages) => {
+      prompt = messages[messages.length - 1].text;
+      return "Wear a helmet (at 1:05).";
+    });
+    const result = await asUser.action(api.ragActions.ragChat, {
+      query: "What safety gear do I need?",
+      expandNeighbors: false,
+    });
+
+    const source = result.sources.find((s) => s.timestamp === "1:05");
+    expect(source).toMatchObject({ fileName: "onboarding.vtt", startTime: 65.25 });
+    expect(prompt).toContain("(onboarding.vtt, at 1:05) Always wear a helmet");
+  });
+
+  test("rejects unsupported file types", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob(["PK"])));
+
+    await expect(
+      asUser.mutation(api.ingestion.startIngestion, {
+        storageId,
+        fileName: "budget.xlsx",
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        size: 2,
+      })
+    ).rejects.toThrow("Unsupported file type: budget.xlsx");
+  });
+});
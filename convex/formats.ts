@@ -0,0 +1,399 @@
+/**
+ * Document Formats Module
+ *
+ * Converts structured formats into the text that chunkDocument
+ * (chunking.ts) understands:
+ *
+ * - HTML headings (`<h1>` to `<h6>`) become Markdown headings, so chunks
+ *   record the section they belong to.
+ * - Table rows (HTML and DOCX tables, CSV rows, items of JSON arrays) become
+ *   self-contained records: every value is labelled with its column, and
+ *   rows are separated by a RECORD_BREAK so each row is chunked on its own.
+ * - Subtitle cues (SRT and WebVTT) are grouped into time windows, and each
+ *   window becomes a record marked with its time range, so chunks can be
+ *   cited by their position in the recording.
+ *
+ * DOCX files are converted to HTML first (see extraction.ts), so they share
+ * the HTML conversion. PDF extraction needs Node.js and lives in
+ * extraction.ts as well. Matching an upload to its format lives in
+ * formatTypes.ts, which the upload page imports too.
+ *
+ * @module formats
+ */
+
+import { parse, HTMLElement, Node, TextNode } from "node-html-parser";
+import { CHUNK_SIZE, RECORD_BREAK, timeRangeMarker } from "./chunking";
+
+export { detectFormat, SUPPORTED_EXTENSIONS } from "./formatTypes";
+export type { DocumentFormat } from "./formatTypes";
+
+/**
+ * Join records so each one is chunked on its own
+ */
+function recordBlock(records: string[]): string {
+  return ["", ...records.filter((record) => record.length > 0), ""].join(`\n\n${RECORD_BREAK}\n\n`);
+}
+
+/**
+ * Render a table row as labelled values, e.g. "Name: Alice\nRole: Admin"
+ *
+ * Empty cells are left out. Without headers the cells are joined with " | ".
+ */
+function formatRow(headers: string[], cells: string[]): string {
+  if (headers.length === 0) {
+    return cells.filter((cell) => cell.length > 0).join(" | ");
+  }
+  return cells
+    .map((cell, i) => (cell.length > 0 ? `${headers[i] || `Column ${i + 1}`}: ${cell}` : ""))
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields may contain
+ * commas, line breaks and doubled quotes)
+ */
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value.length > 0));
+}
+
+/**
+ * Convert a CSV file into one record per row
+ *
+ * The first row is used as the header, so every record names its columns.
+ *
+ * @param csv - Contents of the CSV file
+ * @returns Text with one record per data row
+ *
+ * @example
+ * ```typescript
+ * csvToText("name,role\nAlice,Admin");
+ * // records: "name: Alice\nrole: Admin"
+ * ```
+ */
+export function csvToText(csv: string): string {
+  const [headers = [], ...rows] = parseCsv(csv.replace(/^\uFEFF/, ""));
+  return recordBlock(rows.map((cells) => formatRow(headers, cells))).trim();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a JSON value holds a list of objects, which is rendered as records
+ */
+function containsRecords(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => typeof item === "object" && item !== null);
+  }
+  return isPlainObject(value) && Object.values(value).some(containsRecords);
+}
+
+/**
+ * Flatten a JSON value into "path: value" lines, e.g. "address.city: Berlin"
+ */
+function flattenJson(value: unknown, path: string): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    if (value.every((item) => typeof item !== "object" || item === null)) {
+      const items = value.filter((item) => item !== null).join(", ");
+      return items.length > 0 ? [path ? `${path}: ${items}` : items] : [];
+    }
+    return value.flatMap((item, i) => flattenJson(item, `${path}[${i}]`));
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, field]) => flattenJson(field, path ? `${path}.${key}` : key));
+  }
+  return [path ? `${path}: ${String(value)}` : String(value)];
+}
+
+function jsonBlocks(value: unknown, level: number): string[] {
+  if (Array.isArray(value)) {
+    return [recordBlock(value.map((item) => flattenJson(item, "").join("\n")))];
+  }
+  if (!isPlainObject(value)) {
+    return flattenJson(value, "");
+  }
+
+  // Plain fields first, then every list of objects under its own heading
+  const fields: string[] = [];
+  const sections: string[] = [];
+  for (const [key, field] of Object.entries(value)) {
+    if (containsRecords(field)) {
+      sections.push(`${"#".repeat(Math.min(level, 6))} ${key}`, ...jsonBlocks(field, level + 1));
+    } else {
+      fields.push(...flattenJson(field, key));
+    }
+  }
+  return [...(fields.length > 0 ? [fields.join("\n")] : []), ...sections];
+}
+
+/**
+ * Convert a JSON file into records and sections
+ *
+ * Every item of an array becomes a record of "path: value" lines. Keys that
+ * hold lists of objects become headings, so e.g. `{"employees": [...]}`
+ * yields one record per employee in an "employees" section.
+ *
+ * @param json - Contents of the JSON file
+ * @returns Text for chunkDocument
+ *
+ * @throws Error if the file is not valid JSON
+ */
+export function jsonToText(json: string): string {
+  let value: unknown;
+  try {
+    value = JSON.parse(json.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  return jsonBlocks(value, 1).join("\n\n").trim();
+}
+
+// Elements without readable content
+const SKIPPED_TAGS = new Set(["head", "script", "style", "noscript", "template", "svg", "iframe"]);
+// Elements that start a new paragraph
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "header", "footer", "aside", "nav",
+  "blockquote", "pre", "ul", "ol", "dl", "dt", "dd", "figure", "figcaption",
+  "br", "hr", "address", "details", "summary",
+]);
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Turn an HTML table into one record per body row, labelled with the header
+ * cells of the first row if it has any
+ */
+function tableRecords(table: HTMLElement): string[] {
+  const rows = table
+    .querySelectorAll("tr")
+    .filter((row) => row.closest("table") === table)
+    .map((row) => ({
+      isHeader: row.childNodes.some((cell) => cell instanceof HTMLElement && cell.tagName === "TH") &&
+        !row.childNodes.some((cell) => cell instanceof HTMLElement && cell.tagName === "TD"),
+      cells: row.childNodes
+        .filter((cell): cell is HTMLElement => cell instanceof HTMLElement && (cell.tagName === "TD" || cell.tagName === "TH"))
+        .map((cell) => collapseWhitespace(cell.text)),
+    }))
+    .filter((row) => row.cells.some((cell) => cell.length > 0));
+
+  const headers = rows.length > 0 && rows[0].isHeader ? rows[0].cells : [];
+  const body = headers.length > 0 ? rows.slice(1) : rows;
+  return body.map((row) => formatRow(headers, row.cells));
+}
+
+/**
+ * Convert an HTML page into Markdown-like text
+ *
+ * Headings become Markdown headings, list items become "- " lines, tables
+ * become one record per row and everything else is read as paragraphs.
+ * Scripts, styles and other non-content elements are dropped.
+ *
+ * @param html - The HTML document or fragment
+ * @returns Text for chunkDocument
+ *
+ * @example
+ * ```typescript
+ * htmlToText("<h2>Safety Rules</h2><p>Wear a helmet.</p>");
+ * // "## Safety Rules\n\nWear a helmet."
+ * ```
+ */
+export function htmlToText(html: string): string {
+  const root = parse(html);
+  const blocks: string[] = [];
+  let paragraph = "";
+
+  const endParagraph = () => {
+    const text = collapseWhitespace(paragraph);
+    if (text.length > 0 && text !== "-") {
+      blocks.push(text);
+    }
+    paragraph = "";
+  };
+
+  const visit = (node: Node) => {
+    if (node instanceof TextNode) {
+      paragraph += node.text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) {
+      return;
+    }
+
+    const tag = node.tagName?.toLowerCase() ?? "";
+    if (SKIPPED_TAGS.has(tag)) {
+      return;
+    }
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      endParagraph();
+      const title = collapseWhitespace(node.text);
+      if (title.length > 0) {
+        blocks.push(`${"#".repeat(Number(heading[1]))} ${title}`);
+      }
+      return;
+    }
+    if (tag === "table") {
+      endParagraph();
+      blocks.push(recordBlock(tableRecords(node)));
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag) || tag === "li";
+    if (isBlock) endParagraph();
+    if (tag === "li") paragraph = "- ";
+    node.childNodes.forEach(visit);
+    if (isBlock) endParagraph();
+  };
+
+  visit(root);
+  endParagraph();
+  return blocks.join("\n\n").trim();
+}
+
+/**
+ * Seconds of recording grouped into one transcript chunk
+ */
+export const TRANSCRIPT_WINDOW_SECONDS = 60;
+
+/**
+ * A subtitle cue with its start and end in seconds
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// "01:02:03,456" (SRT), "01:02:03.456" or "02:03.456" (WebVTT)
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+function parseCueTime(time: string): number | null {
+  const match = time.match(CUE_TIME);
+  if (match === null) {
+    return null;
+  }
+  const [, hours = "0", minutes, seconds, fraction] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, "0")) / 1000;
+}
+
+/**
+ * Parse the cues of an SRT or WebVTT file
+ *
+ * Cue numbers and identifiers, WebVTT headers, NOTE/STYLE/REGION blocks and
+ * cue settings are ignored. Voice tags become a speaker prefix
+ * (`<v Anna>Hi` → "Anna: Hi") and other markup is removed.
+ *
+ * @param subtitles - Contents of the subtitle file
+ * @returns Cues in file order
+ */
+export function parseSubtitles(subtitles: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  for (const block of subtitles.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const timing = lines.findIndex((line) => line.includes("-->"));
+    if (timing === -1) {
+      continue;
+    }
+
+    const [from, to] = lines[timing].split("-->");
+    const start = parseCueTime(from);
+    const end = parseCueTime(to);
+    const text = lines
+      .slice(timing + 1)
+      .join(" ")
+      .replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/g, "$1: ")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&nbsp;/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (start !== null && end !== null && text.length > 0) {
+      cues.push({ start, end, text });
+    }
+  }
+  return cues;
+}
+
+/**
+ * Convert an SRT or WebVTT transcript into one record per time window
+ *
+ * Consecutive cues are grouped until a window covers
+ * TRANSCRIPT_WINDOW_SECONDS or would outgrow a chunk. Each record starts with
+ * a time range marker, so its chunks store the start and end of the window.
+ *
+ * @param subtitles - Contents of the subtitle file
+ * @returns Text for chunkDocument
+ *
+ * @throws Error if the file contains no cues
+ */
+export function subtitlesToText(subtitles: string): string {
+  const cues = parseSubtitles(subtitles);
+  if (cues.length === 0) {
+    throw new Error("The file contains no subtitle cues");
+  }
+
+  const windows: SubtitleCue[] = [];
+  for (const cue of cues) {
+    const current = windows[windows.length - 1];
+    if (
+      current === undefined ||
+      cue.start - current.start >= TRANSCRIPT_WINDOW_SECONDS ||
+      current.text.length + cue.text.length + 1 > CHUNK_SIZE
+    ) {
+      windows.push({ ...cue });
+    } else {
+      current.end = Math.max(current.end, cue.end);
+      current.text += `\n${cue.text}`;
+    }
+  }
+
+  return recordBlock(windows.map((window) => `${timeRangeMarker(window.start, window.end)}${window.text}`)).trim();
+}
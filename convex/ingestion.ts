@@ -0,0 +1,724 @@
+/**
+ * Ingestion Pipeline Module
+ *
+ * This module runs document ingestion on the server instead of in the browser.
+ * Raw files are uploaded to Convex file storage and an `ingestionJobs` row
+ * tracks each file through its lifecycle:
+ *
+ *   queued → extracting → chunking → embedding → done
+ *                                               ↘ failed
+ *
+ * Every step is a scheduled internal action, and embedding is split into
+ * batches that each reschedule the next one. Large documents therefore never
+ * hit the action timeout, and the job keeps running after the browser that
+ * started it has been closed.
+ *
+ * Progress is written to the job after every embedded batch, so the RAG page
+ * can render live per-file progress, an ETA and a retry button straight from
+ * the reactive latestJobs query, next to the files from files.listFiles.
+ *
+ * Each job ingests one version of a file (see files.ts). Its chunks stay
+ * hidden from search until the last batch is stored, when the version is
+ * activated and replaces the previous one in a single transaction.
+ *
+ * Text extraction needs Node.js (pdfjs), so it lives in extraction.ts.
+ *
+ * @module ingestion
+ */
+
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalQuery,
+  internalMutation,
+  internalAction,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { insertChunk, requireUserId, userFileKey } from "./documents";
+import { activateVersion, deleteFile, getVersion, refreshFileSummary, reserveVersion } from "./files";
+import { requireCollection, setFileCollection } from "./collections";
+import { getEmbeddingProvider } from "./embeddings";
+import { embedWithCache } from "./embeddingCache";
+import { detectFormat, SUPPORTED_EXTENSIONS } from "./formats";
+import { chunkDocument, DocumentChunk, embeddingText } from "./chunking";
+
+/**
+ * Number of chunks embedded per scheduled action run
+ *
+ * Each run embeds its chunks with one batch request and stores them with one
+ * mutation, and stays well below the action timeout even when the embedding
+ * API is rate limiting and the provider is backing off.
+ */
+const EMBED_BATCH_SIZE = 20;
+
+/**
+ * Generate a short-lived URL the browser can POST a raw file to
+ *
+ * @returns Upload URL for Convex file storage
+ *
+ * @example
+ * ```typescript
+ * const uploadUrl = await generateUploadUrl();
+ * const response = await fetch(uploadUrl, { method: "POST", body: file });
+ * const { storageId } = await response.json();
+ * ```
+ */
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireUserId(ctx);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Queue an uploaded file for ingestion
+ *
+ * Reserves the next version of the caller's file, creates an `ingestionJobs`
+ * row for it and schedules text extraction. From here on the pipeline runs
+ * entirely on the server.
+ *
+ * When the upload has the same content hash as the active version (or a
+ * version still being ingested) nothing is queued and the upload is deleted
+ * from storage again.
+ *
+ * @param storageId - ID returned by the upload URL
+ * @param fileName - Original name of the file
+ * @param contentType - MIME type reported by the browser
+ * @param size - File size in bytes
+ * @param collectionId - Optional collection to put the file in; an existing
+ *   file is moved there, even when its content is unchanged
+ *
+ * @returns Object containing:
+ *   - skipped: true if the content was unchanged and nothing was queued
+ *   - jobId: The ID of the new ingestion job (null when skipped)
+ *   - version: The reserved version, or the version with identical content
+ *
+ * @throws Error if the file type is not supported (see formats.ts), or the
+ *   collection does not belong to the caller
+ *
+ * @example
+ * ```typescript
+ * const { skipped, version } = await startIngestion({
+ *   storageId,
+ *   fileName: file.name,
+ *   contentType: file.type,
+ *   size: file.size,
+ * });
+ * ```
+ */
+export const startIngestion = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.string(),
+    size: v.number(),
+    collectionId: v.optional(v.id("collections")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    if (detectFormat(args.fileName, args.contentType) === null) {
+      throw new Error(
+        `Unsupported file type: ${args.fileName}. Supported types are ${SUPPORTED_EXTENSIONS.join(", ")}`
+      );
+    }
+    if (args.collectionId !== undefined) {
+      await requireCollection(ctx, userId, args.collectionId);
+    }
+    const reserved = await reserveVersion(ctx, userId, args.fileName, args.storageId);
+    const file = await ctx.db.get(reserved.fileId);
+    if (file !== null && args.collectionId !== undefined) {
+      await setFileCollection(ctx, file, args.collectionId);
+    }
+    if (reserved.skipped) {
+      await ctx.storage.delete(args.storageId);
+      return { skipped: true, jobId: null, version: reserved.version };
+    }
+
+    const jobId = await ctx.db.insert("ingestionJobs", {
+      userId,
+      fileName: args.fileName,
+      fileId: reserved.fileId,
+      version: reserved.version,
+      contentHash: reserved.contentHash,
+      contentType: args.contentType,
+      size: args.size,
+      storageId: args.storageId,
+      status: "queued",
+      uploadedAt: new Date().toISOString(),
+      nextChunk: 0,
+    });
+    await refreshFileSummary(ctx, reserved.fileId);
+    await ctx.scheduler.runAfter(0, internal.extraction.extractText, { jobId });
+    return { skipped: false, jobId, version: reserved.version };
+  },
+});
+
+/**
+ * Roll a file back to an earlier version
+ *
+ * Re-ingests the raw upload of `version` as a new version number, so the
+ * current version keeps serving search until the restored one is ready.
+ *
+ * @param fileId - The caller's file
+ * @param version - The earlier version to restore
+ *
+ * @returns The ID of the new ingestion job and the version it will create
+ *
+ * @throws Error if the file or version does not exist, or the version already
+ *   has the active content
+ *
+ * @example
+ * ```typescript
+ * await rollbackToVersion({ fileId, version: 2 });
+ * ```
+ */
+export const rollbackToVersion = mutation({
+  args: {
+    fileId: v.id("files"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const file = await ctx.db.get(args.fileId);
+    if (file === null || file.userId !== userId) {
+      throw new Error("File not found");
+    }
+    const target = await getVersion(ctx, file._id, args.version);
+    if (target === null) {
+      throw new Error(`Version ${args.version} not found`);
+    }
+    const active = file.activeVersion !== undefined
+      ? await getVersion(ctx, file._id, file.activeVersion)
+      : null;
+    if (active?.contentHash === target.contentHash) {
+      throw new Error(`Version ${args.version} has the same content as the active version`);
+    }
+
+    const version = file.latestVersion + 1;
+    await ctx.db.patch(file._id, { latestVersion: version });
+    const jobId = await ctx.db.insert("ingestionJobs", {
+      userId,
+      fileName: file.fileName,
+      fileId: file._id,
+      version,
+      contentHash: target.contentHash,
+      restoredFrom: target.version,
+      contentType: target.contentType,
+      size: target.size,
+      storageId: target.storageId,
+      status: "queued",
+      uploadedAt: new Date().toISOString(),
+      nextChunk: 0,
+    });
+    await refreshFileSummary(ctx, file._id);
+    await ctx.scheduler.runAfter(0, internal.extraction.extractText, { jobId });
+    return { jobId, version };
+  },
+});
+
+/**
+ * List the caller's ingestion jobs, newest first
+ *
+ * Each job carries its status, `nextChunk`/`totalChunks` progress, the
+ * embedding start time used for the ETA, and the error message of a failed
+ * run. A file can have several jobs, so per-file listings use
+ * files.listFiles with latestJobs instead.
+ *
+ * @param collectionId - Optional collection; only jobs of files currently in
+ *   it are returned
+ *
+ * @returns Up to 50 of the caller's most recent ingestion jobs
+ */
+export const listJobs = query({
+  args: { collectionId: v.optional(v.id("collections")) },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const jobs = await ctx.db
+      .query("ingestionJobs")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(50);
+    if (args.collectionId === undefined) {
+      return jobs;
+    }
+
+    const inCollection = [];
+    for (const job of jobs) {
+      const file = await ctx.db.get(job.fileId);
+      if (file?.collectionId === args.collectionId) {
+        inCollection.push(job);
+      }
+    }
+    return inCollection;
+  },
+});
+
+/**
+ * Get the latest ingestion job of each of the caller's files
+ *
+ * The RAG page lists files with files.listFiles and attaches these jobs to
+ * the rows for progress, errors and retries. Earlier jobs of a file, such as
+ * the failed run of a later retried upload, are left out.
+ *
+ * @param fileIds - Files to look up, e.g. the loaded pages of listFiles
+ *
+ * @returns The newest job of every given file that has one; files of other
+ *   users are skipped
+ */
+export const latestJobs = query({
+  args: { fileIds: v.array(v.id("files")) },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const jobs = [];
+    for (const fileId of args.fileIds) {
+      const job = await ctx.db
+        .query("ingestionJobs")
+        .withIndex("by_fileId", (q) => q.eq("fileId", fileId))
+        .order("desc")
+        .first();
+      if (job !== null && job.userId === userId) {
+        jobs.push(job);
+      }
+    }
+    return jobs;
+  },
+});
+
+/**
+ * Retry a failed ingestion job
+ *
+ * Resumes from the last completed step: a job that already has its chunk list
+ * continues embedding at `nextChunk`, a job with extracted text is chunked
+ * again, and anything else restarts from extraction.
+ *
+ * @param jobId - The failed job to retry
+ *
+ * @throws Error if the job does not belong to the caller or has not failed
+ */
+export const retryJob = mutation({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const job = await ctx.db.get(args.jobId);
+    if (job === null || job.userId !== userId) {
+      throw new Error("Ingestion job not found");
+    }
+    if (job.status !== "failed") {
+      throw new Error("Only failed jobs can be retried");
+    }
+
+    if (job.chunksStorageId) {
+      await ctx.db.patch(args.jobId, {
+        status: "embedding",
+        error: undefined,
+        embeddingStartedAt: Date.now(),
+        embeddingStartChunk: job.nextChunk,
+      });
+      await ctx.scheduler.runAfter(0, internal.ingestion.embedBatch, { jobId: args.jobId });
+    } else if (job.textStorageId) {
+      await ctx.db.patch(args.jobId, { status: "chunking", error: undefined });
+      await ctx.scheduler.runAfter(0, internal.ingestion.chunkText, { jobId: args.jobId });
+    } else {
+      await ctx.db.patch(args.jobId, { status: "queued", error: undefined });
+      await ctx.scheduler.runAfter(0, internal.extraction.extractText, { jobId: args.jobId });
+    }
+    await refreshFileSummary(ctx, job.fileId);
+  },
+});
+
+/**
+ * Remove a finished or failed job
+ *
+ * Removing a finished job deletes its whole file: every version, chunk and
+ * stored blob, with the chunks deleted in the background (see
+ * files.deleteFile). Removing a failed job only throws away the version it was
+ * ingesting, whose chunks are deleted in the background as well (see
+ * files.deleteVersionChunks), and the file too if it has no other versions or
+ * jobs.
+ *
+ * @param jobId - The job to remove
+ *
+ * @returns Object containing the number of chunks that are deleted in the
+ *   background
+ *
+ * @throws Error if the job does not belong to the caller or is still running
+ */
+export const removeJob = mutation({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const job = await ctx.db.get(args.jobId);
+    if (job === null || job.userId !== userId) {
+      throw new Error("Ingestion job not found");
+    }
+    if (job.status !== "done" && job.status !== "failed") {
+      throw new Error("Cannot remove a file while it is being processed");
+    }
+
+    const file = await ctx.db.get(job.fileId);
+    if (job.status === "done" && file !== null) {
+      return { deleted: await deleteFile(ctx, file) };
+    }
+
+    // The version was never activated, so its chunks are already hidden
+    await ctx.scheduler.runAfter(0, internal.files.deleteVersionChunks, {
+      fileId: job.fileId,
+      version: job.version,
+    });
+
+    // A rollback job shares its raw upload with the version it restores
+    const storageIds = [job.textStorageId, job.chunksStorageId];
+    if (job.restoredFrom === undefined) {
+      storageIds.push(job.storageId);
+    }
+    for (const storageId of storageIds) {
+      if (storageId) {
+        await ctx.storage.delete(storageId);
+      }
+    }
+    await ctx.db.delete(args.jobId);
+
+    if (file !== null && file.activeVersion === undefined) {
+      const otherJob = await ctx.db
+        .query("ingestionJobs")
+        .withIndex("by_fileId", (q) => q.eq("fileId", file._id))
+        .first();
+      if (otherJob === null) {
+        await ctx.db.delete(file._id);
+      }
+    }
+    await refreshFileSummary(ctx, job.fileId);
+
+    return { deleted: job.nextChunk };
+  },
+});
+
+/**
+ * Load an ingestion job by ID
+ *
+ * @param jobId - The job to load
+ * @returns The job, or null if it no longer exists
+ */
+export const getJob = internalQuery({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.jobId);
+  },
+});
+
+/**
+ * Mark a job as extracting
+ *
+ * @param jobId - The job being extracted
+ */
+export const markExtracting = internalMutation({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, { status: "extracting" });
+  },
+});
+
+/**
+ * Record extracted text and schedule chunking
+ *
+ * @param jobId - The job that was extracted
+ * @param textStorageId - Storage ID of the extracted plain text
+ */
+export const markExtracted = internalMutation({
+  args: {
+    jobId: v.id("ingestionJobs"),
+    textStorageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, {
+      status: "chunking",
+      textStorageId: args.textStorageId,
+    });
+    await ctx.scheduler.runAfter(0, internal.ingestion.chunkText, { jobId: args.jobId });
+  },
+});
+
+/**
+ * Record the chunk list and schedule the first embedding batch
+ *
+ * @param jobId - The job that was chunked
+ * @param chunksStorageId - Storage ID of the JSON-encoded chunk array
+ * @param totalChunks - Number of chunks produced
+ */
+export const markChunked = internalMutation({
+  args: {
+    jobId: v.id("ingestionJobs"),
+    chunksStorageId: v.id("_storage"),
+    totalChunks: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, {
+      status: "embedding",
+      chunksStorageId: args.chunksStorageId,
+      totalChunks: args.totalChunks,
+      nextChunk: 0,
+      embeddingStartedAt: Date.now(),
+      embeddingStartChunk: 0,
+    });
+    await ctx.scheduler.runAfter(0, internal.ingestion.embedBatch, { jobId: args.jobId });
+  },
+});
+
+/**
+ * Store a batch of embedded chunks and advance the job's progress
+ *
+ * Inserting the chunks and moving `nextChunk` happen in the same transaction,
+ * so the progress shown to the user always matches the stored chunks and a
+ * retried batch never inserts a chunk twice.
+ *
+ * @param jobId - The job being embedded
+ * @param startIndex - Zero-based index of the first chunk in the batch
+ * @param embeddingModel - Model that produced the embeddings
+ * @param cachedChunks - Number of chunks in the batch whose vector came from
+ *   the embedding cache
+ * @param chunks - Chunk texts with their embedding vectors, heading paths and
+ *   page or time ranges, in order
+ */
+export const storeChunks = internalMutation({
+  args: {
+    jobId: v.id("ingestionJobs"),
+    startIndex: v.number(),
+    embeddingModel: v.string(),
+    cachedChunks: v.number(),
+    chunks: v.array(
+      v.object({
+        text: v.string(),
+        embedding: v.array(v.float64()),
+        headingPath: v.array(v.string()),
+        sectionTitle: v.optional(v.string()),
+        pageStart: v.optional(v.number()),
+        pageEnd: v.optional(v.number()),
+        startTime: v.optional(v.number()),
+        endTime: v.optional(v.number()),
+        overlap: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (job === null || args.startIndex !== job.nextChunk) {
+      return;
+    }
+    const file = await ctx.db.get(job.fileId);
+
+    for (let i = 0; i < args.chunks.length; i++) {
+      await insertChunk(
+        ctx,
+        {
+          userId: job.userId,
+          fileId: job.fileId,
+          version: job.version,
+          userFileKey: userFileKey(job.userId, job.fileName),
+          collectionId: file?.collectionId,
+          text: args.chunks[i].text,
+          metadata: {
+            source: job.fileName,
+            fileName: job.fileName,
+            uploadedAt: job.uploadedAt,
+            chunkIndex: args.startIndex + i,
+            totalChunks: job.totalChunks ?? 0,
+            headingPath: args.chunks[i].headingPath,
+            sectionTitle: args.chunks[i].sectionTitle,
+            pageStart: args.chunks[i].pageStart,
+            pageEnd: args.chunks[i].pageEnd,
+            startTime: args.chunks[i].startTime,
+            endTime: args.chunks[i].endTime,
+            overlap: args.chunks[i].overlap,
+          },
+        },
+        args.chunks[i].embedding,
+        args.embeddingModel
+      );
+    }
+    await ctx.db.patch(args.jobId, {
+      nextChunk: args.startIndex + args.chunks.length,
+      cachedChunks: (job.cachedChunks ?? 0) + args.cachedChunks,
+    });
+  },
+});
+
+/**
+ * Either finish the job or schedule the next embedding batch
+ *
+ * When the last chunk is in, the job's version is activated (see
+ * files.activateVersion), earlier finished jobs of the same file are removed
+ * from the job list, and intermediate text and chunk blobs are removed from
+ * storage. The raw upload is kept for rollback.
+ *
+ * @param jobId - The job being embedded
+ */
+export const markBatchEmbedded = internalMutation({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (job === null) {
+      return;
+    }
+
+    if (job.nextChunk < (job.totalChunks ?? 0)) {
+      await ctx.scheduler.runAfter(0, internal.ingestion.embedBatch, { jobId: args.jobId });
+      return;
+    }
+
+    await activateVersion(ctx, {
+      fileId: job.fileId,
+      version: job.version,
+      contentHash: job.contentHash,
+      storageId: job.storageId,
+      contentType: job.contentType,
+      size: job.size,
+      uploadedAt: job.uploadedAt,
+      totalChunks: job.totalChunks ?? 0,
+      restoredFrom: job.restoredFrom,
+    });
+
+    const finishedJobs = await ctx.db
+      .query("ingestionJobs")
+      .withIndex("by_fileId", (q) => q.eq("fileId", job.fileId))
+      .collect();
+    for (const finished of finishedJobs) {
+      if (finished._id !== job._id && finished.status === "done") {
+        await ctx.db.delete(finished._id);
+      }
+    }
+
+    if (job.textStorageId) {
+      await ctx.storage.delete(job.textStorageId);
+    }
+    if (job.chunksStorageId) {
+      await ctx.storage.delete(job.chunksStorageId);
+    }
+    await ctx.db.patch(args.jobId, {
+      status: "done",
+      textStorageId: undefined,
+      chunksStorageId: undefined,
+    });
+    await refreshFileSummary(ctx, job.fileId);
+  },
+});
+
+/**
+ * Mark a job as failed
+ *
+ * @param jobId - The job that failed
+ * @param error - Human-readable reason shown to the user
+ */
+export const markFailed = internalMutation({
+  args: {
+    jobId: v.id("ingestionJobs"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (job === null) {
+      return;
+    }
+    await ctx.db.patch(args.jobId, { status: "failed", error: args.error });
+    await refreshFileSummary(ctx, job.fileId);
+  },
+});
+
+/**
+ * Split extracted text into chunks
+ *
+ * Reads the extracted text from storage, splits it along headings and
+ * paragraphs with chunkDocument (as embedDocument does) and stores the chunk
+ * list, heading paths included, as JSON so embedding batches can pick up
+ * from any index.
+ *
+ * @param jobId - The job to chunk
+ */
+export const chunkText = internalAction({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    try {
+      const job = await ctx.runQuery(internal.ingestion.getJob, { jobId: args.jobId });
+      if (job === null || !job.textStorageId) {
+        throw new Error("Extracted text is missing");
+      }
+
+      const blob = await ctx.storage.get(job.textStorageId);
+      if (blob === null) {
+        throw new Error("Extracted text is missing");
+      }
+
+      const chunks: DocumentChunk[] = await chunkDocument(await blob.text());
+      if (chunks.length === 0) {
+        throw new Error("Document contains no text");
+      }
+      console.log(`✂️  Split ${job.fileName} into ${chunks.length} chunks`);
+
+      const chunksStorageId = await ctx.storage.store(
+        new Blob([JSON.stringify(chunks)], { type: "application/json" }),
+      );
+      await ctx.runMutation(internal.ingestion.markChunked, {
+        jobId: args.jobId,
+        chunksStorageId,
+        totalChunks: chunks.length,
+      });
+    } catch (error) {
+      console.error("Error chunking document:", error);
+      await ctx.runMutation(internal.ingestion.markFailed, {
+        jobId: args.jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
+
+/**
+ * Embed the next batch of chunks
+ *
+ * Embeds up to EMBED_BATCH_SIZE chunks starting at the job's `nextChunk`
+ * in a single request, reusing cached vectors of unchanged chunks (see
+ * embeddingCache.ts), stores them through storeChunks (which records
+ * progress) and hands control back to markBatchEmbedded, which schedules the
+ * following batch.
+ *
+ * @param jobId - The job to embed
+ */
+export const embedBatch = internalAction({
+  args: { jobId: v.id("ingestionJobs") },
+  handler: async (ctx, args) => {
+    try {
+      const job = await ctx.runQuery(internal.ingestion.getJob, { jobId: args.jobId });
+      if (job === null || !job.chunksStorageId) {
+        throw new Error("Chunk list is missing");
+      }
+
+      const blob = await ctx.storage.get(job.chunksStorageId);
+      if (blob === null) {
+        throw new Error("Chunk list is missing");
+      }
+
+      const chunks: DocumentChunk[] = JSON.parse(await blob.text());
+      const batch = chunks.slice(job.nextChunk, job.nextChunk + EMBED_BATCH_SIZE);
+
+      console.log(`🔢 Embedding chunks ${job.nextChunk + 1}-${job.nextChunk + batch.length}/${chunks.length}...`);
+      const { embeddings, cacheHits } = await embedWithCache(ctx, job.userId, batch.map(embeddingText));
+
+      await ctx.runMutation(internal.ingestion.storeChunks, {
+        jobId: args.jobId,
+        startIndex: job.nextChunk,
+        embeddingModel: getEmbeddingProvider().model,
+        cachedChunks: cacheHits,
+        chunks: batch.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })),
+      });
+
+      await ctx.runMutation(internal.ingestion.markBatchEmbedded, { jobId: args.jobId });
+    } catch (error) {
+      console.error("Error embedding document:", error);
+      await ctx.runMutation(internal.ingestion.markFailed, {
+        jobId: args.jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
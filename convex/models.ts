@@ -0,0 +1,233 @@
+/**
+ * Chat Model Registry Module
+ *
+ * Every LLM call in the app goes through getChatModel, which picks a provider
+ * and model per task from configuration instead of each module creating its
+ * own client. Supported providers:
+ *
+ * - `google`: Gemini through @langchain/google-genai (default)
+ * - `openai`: OpenAI chat models through @langchain/openai
+ * - `fake`: scripted offline model, so the LangGraph workflows and ragChat
+ *   run with no API key and no network
+ *
+ * Configuration (Convex environment variables):
+ * - CHAT_PROVIDER: Default provider for every task (default: "google")
+ * - CHAT_MODEL_<TASK>: Per-task override as "provider:model" or just "model",
+ *   where <TASK> is QUERY_ENHANCEMENT, SUBTOPICS, QUESTIONS, SUPERVISOR, CHAT
+ *   or RERANK
+ *
+ * @example
+ * ```bash
+ * npx convex env set CHAT_PROVIDER openai
+ * npx convex env set CHAT_MODEL_CHAT google:gemini-2.5-flash
+ * ```
+ *
+ * @module models
+ */
+
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { ChatOpenAI } from "@langchain/openai";
+
+/**
+ * The kinds of LLM calls made by the app
+ */
+export type ModelTask =
+  | "queryEnhancement"
+  | "subtopics"
+  | "questions"
+  | "supervisor"
+  | "chat"
+  | "rerank";
+
+export type ChatProvider = "google" | "openai" | "fake";
+
+/**
+ * Produces the fake model's reply from the messages it was sent
+ *
+ * Throwing from a script simulates a failed API call.
+ */
+export type ChatScript = (messages: BaseMessage[]) => string | Promise<string>;
+
+// Default model for each task per remote provider
+const DEFAULT_MODELS: Record<Exclude<ChatProvider, "fake">, Record<ModelTask, string>> = {
+  google: {
+    queryEnhancement: "gemini-2.0-flash",
+    subtopics: "gemini-2.0-flash",
+    questions: "gemini-2.0-flash",
+    supervisor: "gemini-2.0-flash",
+    chat: "gemini-2.5-flash",
+    rerank: "gemini-2.0-flash",
+  },
+  openai: {
+    queryEnhancement: "gpt-4o-mini",
+    subtopics: "gpt-4o-mini",
+    questions: "gpt-4o-mini",
+    supervisor: "gpt-4o-mini",
+    chat: "gpt-4o-mini",
+    rerank: "gpt-4o-mini",
+  },
+};
+
+/**
+ * Chat model whose replies come from a script instead of an API
+ *
+ * Inherits withStructuredOutput from FakeListChatModel, which parses the
+ * scripted reply as JSON, so structured-output nodes work unchanged.
+ */
+export class ScriptedChatModel extends FakeListChatModel {
+  constructor(private readonly script: ChatScript) {
+    super({ responses: [] });
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const text = await this.script(messages);
+    return { generations: [this._formatGeneration(text)] };
+  }
+}
+
+// Text of the last message, which carries the prompt in every call site
+function lastMessageText(messages: BaseMessage[]): string {
+  return messages.length > 0 ? messages[messages.length - 1].text : "";
+}
+
+/**
+ * Offline replies that satisfy each task's expected output shape
+ */
+const DEFAULT_SCRIPTS: Record<ModelTask, ChatScript> = {
+  queryEnhancement: (messages) => {
+    const prompt = lastMessageText(messages);
+    return prompt.match(/Original query: "([\s\S]*)"/)?.[1] ?? prompt;
+  },
+  subtopics: () =>
+    JSON.stringify({
+      subtopics: ["Key Concepts", "Important Details", "Practical Applications"],
+    }),
+  questions: (messages) => {
+    const subtopic = lastMessageText(messages).match(/(?:Subtopic|about): "([^"]*)"/)?.[1] ?? "the topic";
+    return JSON.stringify({
+      questions: Array.from({ length: 5 }, (_, i) => ({
+        question: `Offline question ${i + 1} about ${subtopic}?`,
+        options: { A: "Option A", B: "Option B", C: "Option C", D: "Option D" },
+        correctAnswer: "A",
+        explanation: `Offline explanation for question ${i + 1}.`,
+        sourceDocument: 1,
+      })),
+    });
+  },
+  supervisor: () => JSON.stringify({ next: "FINISH", reasoning: "Offline model" }),
+  chat: (messages) => {
+    const context = lastMessageText(messages).match(/Context:\n([\s\S]*?)\n\nUser Question:/)?.[1] ?? "";
+    return `Offline answer based on the provided context:\n${context.slice(0, 500)}`;
+  },
+  // Every passage is equally relevant, so re-ranking falls back to diversity
+  rerank: (messages) => {
+    const passages = lastMessageText(messages).match(/^\[\d+\] /gm) ?? [];
+    return JSON.stringify({ scores: passages.map(() => 5) });
+  },
+};
+
+// Scripts registered at runtime, e.g. by tests, take precedence over defaults
+const scripts: Partial<Record<ModelTask, ChatScript>> = {};
+
+/**
+ * Replace the fake model's script for a task
+ *
+ * Pass `undefined` to go back to the default offline script.
+ *
+ * @param task - Task whose fake replies should change
+ * @param script - Function producing the reply, or undefined to reset
+ *
+ * @example
+ * ```typescript
+ * setChatScript("subtopics", () => {
+ *   throw new Error("429 Too Many Requests");
+ * });
+ * ```
+ */
+export function setChatScript(task: ModelTask, script: ChatScript | undefined): void {
+  scripts[task] = script;
+}
+
+// e.g. "queryEnhancement" -> "QUERY_ENHANCEMENT"
+function envSuffix(task: ModelTask): string {
+  return task.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+/**
+ * Resolve the provider and model configured for a task
+ *
+ * @param task - The task to resolve
+ * @returns The provider and model name for the task
+ *
+ * @throws Error if the configuration names an unknown provider
+ */
+export function resolveModelConfig(task: ModelTask): { provider: ChatProvider; model: string } {
+  const override = process.env[`CHAT_MODEL_${envSuffix(task)}`];
+  let provider = process.env.CHAT_PROVIDER || "google";
+  let model: string | undefined;
+
+  if (override) {
+    const separator = override.indexOf(":");
+    if (separator === -1) {
+      model = override;
+    } else {
+      provider = override.slice(0, separator);
+      model = override.slice(separator + 1);
+    }
+  }
+
+  switch (provider) {
+    case "google":
+    case "openai":
+      return { provider, model: model ?? DEFAULT_MODELS[provider][task] };
+    case "fake":
+      return { provider, model: model ?? "scripted" };
+    default:
+      throw new Error(`Unknown chat provider "${provider}" for task "${task}"`);
+  }
+}
+
+/**
+ * Get the chat model configured for a task
+ *
+ * @param task - The kind of call about to be made
+ * @returns A LangChain chat model supporting invoke and withStructuredOutput
+ *
+ * @throws Error if the configuration names an unknown provider
+ *
+ * @example
+ * ```typescript
+ * const model = getChatModel("subtopics");
+ * const response = await model
+ *   .withStructuredOutput(SubtopicsResponseSchema)
+ *   .invoke([new HumanMessage(prompt)]);
+ * ```
+ */
+export function getChatModel(task: ModelTask): BaseChatModel {
+  const { provider, model } = resolveModelConfig(task);
+
+  switch (provider) {
+    case "google":
+      return new ChatGoogleGenerativeAI({
+        model,
+        temperature: 0.7,
+        maxOutputTokens: 8192,
+      });
+    case "openai":
+      return new ChatOpenAI({
+        model,
+        temperature: 0.7,
+        maxTokens: 8192,
+      });
+    case "fake":
+      return new ScriptedChatModel((messages) => (scripts[task] ?? DEFAULT_SCRIPTS[task])(messages));
+  }
+}
@@ -32,7 +32,7 @@ Instructions:
 - Provide a clear, concise answer based on the context
 - If the context doesn't contain relevant information, say so
 - Be helpful and conversational
-- Cite which document sections you're referencing when relevant
+- Cite which document sections you're referencing when relevant, including page numbers or timestamps (e.g. "at 12:34") when the context gives them
 
 Answer:`;
 }
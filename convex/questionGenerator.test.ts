@@ -0,0 +1,58 @@
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import { modules } from "./test.setup";
+import { setChatScript } from "./models";
+
+afterEach(() => {
+  setChatScript("subtopics", undefined);
+  setChatScript("questions", undefined);
+});
+
+describe("generateQuizQuestions", () => {
+  test("routes through the supervisor until questions exist", async () => {
+    const t = convexTest(schema, modules);
+
+    const result = await t.action(api.questionGenerator.generateQuizQuestions, {
+      topic: "Photosynthesis",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.subtopics).toEqual(["Key Concepts", "Important Details", "Practical Applications"]);
+    expect(result.total).toBe(15);
+    expect(result.questions.every((question) => question.correctAnswer === "A")).toBe(true);
+    // supervisor -> TopicGenerator -> supervisor -> QuestionGenerator -> supervisor -> FINISH
+    expect(result.metrics.nodeExecutions).toMatchObject({ supervisor: 3, TopicGenerator: 1 });
+  });
+
+  test("falls back to default subtopics when the model keeps failing", async () => {
+    const t = convexTest(schema, modules);
+    setChatScript("subtopics", () => {
+      throw new Error("429 Too Many Requests");
+    });
+
+    const result = await t.action(api.questionGenerator.generateQuizQuestions, {
+      topic: "Photosynthesis",
+    });
+
+    expect(result.subtopics).toEqual([
+      "Photosynthesis - Fundamentals",
+      "Photosynthesis - Advanced Concepts",
+      "Photosynthesis - Practical Applications",
+    ]);
+    expect(result.total).toBe(15);
+    expect(result.metrics.errorCount).toBeGreaterThan(0);
+  }, 15_000);
+
+  test("rejects empty and overly long topics", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(
+      t.action(api.questionGenerator.generateQuizQuestions, { topic: "   " })
+    ).rejects.toThrow("Topic must be a non-empty string");
+    await expect(
+      t.action(api.questionGenerator.generateQuizQuestions, { topic: "x".repeat(201) })
+    ).rejects.toThrow("Topic must be less than 200 characters");
+  });
+});
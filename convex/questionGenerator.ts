@@ -4,15 +4,8 @@ import { action } from "./_generated/server";
 import { v } from "convex/values";
 import { StateGraph, END, START, Annotation } from "@langchain/langgraph";
 import { HumanMessage, BaseMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { z } from "zod";
-
-// --- Model Configuration ---
-const model = new ChatGoogleGenerativeAI({
-    model: "gemini-2.0-flash",
-    temperature: 0.7,
-    maxOutputTokens: 8192,
-});
+import { getChatModel } from "./models";
 
 // --- Constants ---
 const MIN_SUBTOPICS = 3;
@@ -222,7 +215,7 @@ Current Workflow State:
 - Execution count: ${executionCount}
 `;
 
-    const structuredModel = model.withStructuredOutput(supervisorSchema);
+    const structuredModel = getChatModel("supervisor").withStructuredOutput(supervisorSchema);
 
     try {
         const response = await structuredModel.invoke([
@@ -267,7 +260,7 @@ Topic: ${state.topic}`;
     let lastError: Error | null = null;
 
     // Use structured output for reliable parsing
-    const structuredModel = model.withStructuredOutput(SubtopicsResponseSchema);
+    const structuredModel = getChatModel("subtopics").withStructuredOutput(SubtopicsResponseSchema);
 
     // Retry logic for robustness
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
@@ -345,7 +338,7 @@ Requirements:
 - Questions should test understanding, not just memorization
 - Questions should be challenging but fair`;
 
-        const structuredModel = model.withStructuredOutput(QuestionsResponseSchema);
+        const structuredModel = getChatModel("questions").withStructuredOutput(QuestionsResponseSchema);
 
         for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
             try {
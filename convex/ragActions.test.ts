@@ -0,0 +1,184 @@
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import { modules, signInNewUser } from "./test.setup";
+import { chunkDocument } from "./chunking";
+import { getEmbeddingProvider } from "./embeddings";
+import { setChatScript } from "./models";
+
+afterEach(() => {
+  setChatScript("chat", undefined);
+});
+
+describe("embedDocument", () => {
+  test("stores every chunk with its metadata and reports throughput", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    const content = "Safety first. ".repeat(300);
+
+    const result = await asUser.action(api.ragActions.embedDocument, {
+      fileName: "safety.txt",
+      content,
+    });
+
+    const expectedChunks = (await chunkDocument(content)).length;
+    expect(result.success).toBe(true);
+    expect(result.chunksCreated).toBe(expectedChunks);
+    expect(result.stats?.embeddingRequests).toBe(1);
+
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "safety.txt" });
+    expect(docs.map((doc) => doc.metadata.chunkIndex).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: expectedChunks }, (_, i) => i)
+    );
+    expect(docs.every((doc) => !("embedding" in doc))).toBe(true);
+
+    const embeddings = await t.run((ctx) => ctx.db.query("chunkEmbeddings").collect());
+    expect(embeddings.map((row) => row.documentId).sort()).toEqual(docs.map((doc) => doc._id).sort());
+    expect(embeddings.every((row) => row.embeddingModel === "local/hashing-v1")).toBe(true);
+  });
+
+  test("rolls back an upload that fails halfway", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, { fileName: "safety.txt", content: "Wear a helmet." });
+
+    // Fail the second embedding batch after the first one has been stored
+    const provider = getEmbeddingProvider();
+    const embed = provider.embed;
+    let calls = 0;
+    const spy = vi.spyOn(provider, "embed").mockImplementation(async (texts) => {
+      if (++calls === 2) {
+        throw new Error("Embedding service unavailable");
+      }
+      return await embed(texts);
+    });
+    const result = await asUser.action(api.ragActions.embedDocument, {
+      fileName: "safety.txt",
+      content: Array.from({ length: 2000 }, (_, i) => `Safety rule ${i}.`).join(" "),
+    });
+    spy.mockRestore();
+
+    expect(result).toEqual({ success: false, error: "Embedding service unavailable" });
+    // The stored half of the failed version is never searchable
+    const pending = await t.run((ctx) => ctx.db.query("documents").collect());
+    expect(pending.length).toBeGreaterThan(1);
+    const docs = await asUser.query(api.documents.getByFileName, { fileName: "safety.txt" });
+    expect(docs.map((doc) => doc.text)).toEqual(["Wear a helmet."]);
+    expect(await asUser.action(api.documents.search, { query: "safety rule", mode: "keyword" })).toEqual([]);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+    const stored = await t.run((ctx) => ctx.db.query("documents").collect());
+    expect(stored.map((doc) => doc.text)).toEqual(["Wear a helmet."]);
+  });
+
+  test("reports failure for unauthenticated callers", async () => {
+    const t = convexTest(schema, modules);
+
+    const result = await t.action(api.ragActions.embedDocument, {
+      fileName: "safety.txt",
+      content: "Safety first.",
+    });
+
+    expect(result).toEqual({ success: false, error: "Not authenticated" });
+  });
+});
+
+describe("ragChat", () => {
+  test("asks the user to upload documents when nothing matches", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+
+    const result = await asUser.action(api.ragActions.ragChat, { query: "What are the gym hours?" });
+
+    expect(result.success).toBe(true);
+    expect(result.sources).toEqual([]);
+    expect(result.answer).toContain("No documents found");
+  });
+
+  test("answers from the retrieved context and returns sources", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: "The gym opens at 6am on weekdays.",
+    });
+
+    let prompt = "";
+    setChatScript("chat", (messages) => {
+      prompt = messages[messages.length - 1].text;
+      return "It opens at 6am.";
+    });
+
+    const result = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+
+    expect(result.answer).toBe("It opens at 6am.");
+    expect(prompt).toContain("The gym opens at 6am on weekdays.");
+    expect(result.sources).toHaveLength(1);
+    const [file] = await asUser.query(api.documents.getAllFiles, {});
+    expect(result.sources[0]).toMatchObject({ fileId: file.fileId, fileName: "gym.txt", chunkIndex: 0 });
+  });
+
+  test("cites the section of each source", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, {
+      fileName: "handbook.md",
+      content: "# Chapter 3\n\n## Safety Rules\n\nAlways wear a helmet in the workshop.",
+    });
+
+    let prompt = "";
+    setChatScript("chat", (messages) => {
+      prompt = messages[messages.length - 1].text;
+      return "Wear a helmet.";
+    });
+
+    const result = await asUser.action(api.ragActions.ragChat, { query: "What are the safety rules?" });
+
+    expect(result.sources[0]).toMatchObject({
+      fileName: "handbook.md",
+      section: "Chapter 3 > Safety Rules",
+    });
+    expect(prompt).toContain("(handbook.md > Chapter 3 > Safety Rules) Always wear a helmet");
+  });
+
+  test("cites and links the pages of each source", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, {
+      fileName: "manual.pdf",
+      content: "Cover page.\n\n\f\n\nAlways wear a helmet in the workshop.",
+    });
+
+    let prompt = "";
+    setChatScript("chat", (messages) => {
+      prompt = messages[messages.length - 1].text;
+      return "Wear a helmet.";
+    });
+
+    const result = await asUser.action(api.ragActions.ragChat, { query: "Do I need a helmet?" });
+
+    expect(result.sources[0]).toMatchObject({ fileName: "manual.pdf", pages: "p. 1–2", pageStart: 1 });
+    expect(result.sources[0].url).toMatch(/#page=1$/);
+    expect(prompt).toContain("(manual.pdf, p. 1–2) Cover page.\n\nAlways wear a helmet");
+  });
+
+  test("returns an error result when the model fails", async () => {
+    const t = convexTest(schema, modules);
+    const { asUser } = await signInNewUser(t);
+    await asUser.action(api.ragActions.embedDocument, {
+      fileName: "gym.txt",
+      content: "The gym opens at 6am on weekdays.",
+    });
+
+    setChatScript("chat", () => {
+      throw new Error("Model unavailable");
+    });
+
+    const result = await asUser.action(api.ragActions.ragChat, { query: "When does the gym open?" });
+
+    expect(result).toMatchObject({ success: false, error: "Model unavailable", sources: [] });
+  });
+});
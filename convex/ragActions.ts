@@ -3,98 +3,140 @@
  * 
  * This module provides Convex actions for the RAG (Retrieval-Augmented Generation) system.
  * It handles document embedding, vector similarity search, and AI-powered chat responses
- * using Google's Generative AI models.
+ * using the chat models configured in models.ts.
  * 
  * Key Features:
- * - Document chunking and embedding using Google's embedding model
+ * - Document chunking and embedding using the configured embedding provider
  * - Vector similarity search using Convex's built-in vector search
- * - Context-aware chat responses using Gemini 2.5 Flash
+ * - Context-aware chat responses using the "chat" task model (Gemini 2.5 Flash by default)
  * - Document deletion and management
  * 
  * Environment Variables Required:
  * - GOOGLE_API_KEY: API key for Google Generative AI services
+ * - EMBEDDING_PROVIDER: Optional embedding provider, see embeddings.ts
+ * - CHAT_PROVIDER / CHAT_MODEL_<TASK>: Optional chat model selection, see models.ts
  * 
  * @module ragActions
  */
 
 import { v } from "convex/values";
 import { action } from "./_generated/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { api, internal } from "./_generated/api";
+import { HumanMessage } from "@langchain/core/messages";
 import { buildRagChatPrompt } from "./prompts";
-import { generateEmbedding } from "./documents";
+import { getChatModel } from "./models";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireUserId, searchMode } from "./documents";
+import { getEmbeddingProvider } from "./embeddings";
+import { embedQuery, embedWithCache } from "./embeddingCache";
+import { answerScopeKey, findCachedAnswer } from "./answerCache";
+import { RagSource } from "./schema";
+import { rerank, RERANK_CANDIDATES } from "./reranking";
+import {
+  chunkDocument,
+  DocumentChunk,
+  embeddingText,
+  formatCitation,
+  formatHeadingPath,
+  formatPageRange,
+  formatTimestamp,
+} from "./chunking";
 
 /**
- * Split text into overlapping chunks for embedding
- * 
- * Implements a simple text splitting algorithm that:
- * 1. Breaks text into chunks of approximately `chunkSize` characters
- * 2. Attempts to break at sentence boundaries (periods or newlines) for better context
- * 3. Maintains overlap between chunks to preserve context across boundaries
+ * Number of chunks embedded per batch request and inserted per mutation
+ */
+const EMBED_BATCH_SIZE = 25;
+
+/**
+ * Maximum number of embedding batches in flight at once
  * 
- * This implementation is designed to work in the Convex runtime environment
- * without dependencies on Node.js-specific APIs.
+ * Each worker keeps the rate limit backoff of the embedding provider, so a 429
+ * slows down the worker that hit it instead of failing the whole document.
+ */
+const EMBED_CONCURRENCY = 4;
+
+/**
+ * Run an async function over a list with a bounded number of workers
  * 
- * @param text - The text to split into chunks
- * @param chunkSize - Target size for each chunk in characters (default: 1000)
- * @param chunkOverlap - Number of characters to overlap between chunks (default: 200)
- * @returns Array of text chunks
+ * Results are returned in input order. The first error stops new work from
+ * being started and is rethrown once the running workers have settled.
  * 
- * @example
- * ```typescript
- * const chunks = splitText(documentContent, 1000, 200);
- * console.log(`Split into ${chunks.length} chunks`);
- * ```
+ * @param items - Items to process
+ * @param concurrency - Maximum number of items processed at once
+ * @param fn - Function applied to each item
+ * @returns Results in the same order as `items`
  */
-function splitText(text: string, chunkSize: number = 1000, chunkOverlap: number = 200): string[] {
-  const chunks: string[] = [];
-  let startIndex = 0;
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
 
-  while (startIndex < text.length) {
-    const endIndex = Math.min(startIndex + chunkSize, text.length);
-    let chunk = text.substring(startIndex, endIndex);
-
-    // Try to break at sentence boundaries if not at the end
-    if (endIndex < text.length) {
-      const lastPeriod = chunk.lastIndexOf('. ');
-      const lastNewline = chunk.lastIndexOf('\n');
-      const breakPoint = Math.max(lastPeriod, lastNewline);
-      
-      if (breakPoint > chunkSize / 2) {
-        chunk = chunk.substring(0, breakPoint + 1);
-        startIndex += breakPoint + 1;
-      } else {
-        startIndex += chunkSize - chunkOverlap;
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
       }
-    } else {
-      startIndex = text.length;
     }
+  };
 
-    if (chunk.trim().length > 0) {
-      chunks.push(chunk.trim());
-    }
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+  const settled = await Promise.allSettled(workers);
+  const rejection = settled.find((result) => result.status === "rejected");
+  if (rejection) {
+    throw (rejection as PromiseRejectedResult).reason;
   }
-
-  return chunks;
+  return results;
 }
 
 /**
  * Embed a document and store it in the vector database
  * 
  * This action performs the complete document ingestion workflow:
- * 1. Splits the document into overlapping chunks (1000 chars with 200 char overlap)
- * 2. Generates embeddings for each chunk using Google's embedding model
- * 3. Stores each chunk with its embedding and metadata in the database
+ * 1. Stores the content in file storage and reserves the next version of the
+ *    file (see files.ts); unchanged content is skipped without embedding
+ * 2. Splits the document into chunks along its Markdown headings and
+ *    paragraphs (see chunking.ts), recording each chunk's heading path
+ * 3. Groups the chunks into batches of EMBED_BATCH_SIZE and embeds each batch
+ *    with the configured embedding provider, running up to EMBED_CONCURRENCY
+ *    batches at once. Chunks whose text was embedded before reuse their
+ *    cached vector (see embeddingCache.ts)
+ * 4. Stores each batch with its embeddings and metadata in one mutation, owned
+ *    by the authenticated caller
+ * 5. Activates the new version, which replaces any earlier version of the
+ *    same file name in search at once
+ * 
+ * Until step 5 the new version is pending: its chunks are stored but hidden
+ * from search. If a batch fails, the version is rolled back and its chunks
+ * are deleted in the background. An action that dies before it can roll back
+ * is rolled back by the timeout scheduled in files.beginUpload.
  * 
- * The process is logged to the console for monitoring and debugging.
+ * The process is logged to the console for monitoring and debugging, and
+ * throughput numbers are returned to the caller.
  * 
  * @param fileName - Name of the file being embedded
  * @param content - Full text content of the document
  * 
  * @returns Promise resolving to:
  *   - success: true if embedding succeeded, false otherwise
- *   - chunksCreated: Number of chunks created (on success)
+ *   - skipped: true if the content matched the active version (on success)
+ *   - version: Version number of the file (on success)
+ *   - chunksCreated: Number of chunks created (on success, 0 when skipped)
  *   - fileName: Name of the embedded file (on success)
+ *   - stats: Throughput numbers (on success):
+ *     - durationMs: Wall-clock time spent embedding and storing
+ *     - chunksPerSecond: Chunks embedded and stored per second
+ *     - embeddingRequests: Number of batch embedding requests made
+ *     - mutations: Number of insert mutations run
+ *     - cachedChunks: Number of chunks whose vector came from the cache
+ *     - cacheHitRate: Share of chunks served from the cache, from 0 to 1
  *   - error: Error message (on failure)
  * 
  * @example
@@ -106,6 +148,7 @@ function splitText(text: string, chunkSize: number = 1000, chunkOverlap: number
  * 
  * if (result.success) {
  *   console.log(`Created ${result.chunksCreated} chunks for ${result.fileName}`);
+ *   console.log(`${result.stats?.chunksPerSecond} chunks/s`);
  * } else {
  *   console.error(`Embedding failed: ${result.error}`);
  * }
@@ -118,47 +161,139 @@ export const embedDocument = action({
   },
   handler: async (ctx, args): Promise<{
     success: boolean;
+    skipped?: boolean;
+    version?: number;
     chunksCreated?: number;
     fileName?: string;
+    stats?: {
+      durationMs: number;
+      chunksPerSecond: number;
+      embeddingRequests: number;
+      mutations: number;
+      cachedChunks: number;
+      cacheHitRate: number;
+    };
     error?: string;
   }> => {
+    let upload: { fileId: Id<"files">; version: number } | null = null;
     try {
+      const userId = await requireUserId(ctx);
       console.log(`📄 Processing document: ${args.fileName}`);
       
-      const chunks: string[] = splitText(args.content, 1000, 200);
+      // Keep the content for rollback; its storage hash detects unchanged uploads
+      const contentBlob = new Blob([args.content], { type: "text/plain" });
+      const storageId = await ctx.storage.store(contentBlob);
+      const reserved = await ctx.runMutation(internal.files.beginUpload, {
+        userId,
+        fileName: args.fileName,
+        storageId,
+      });
+      if (reserved.skipped) {
+        console.log(`⏭️  ${args.fileName} is unchanged since version ${reserved.version}, skipping`);
+        return {
+          success: true,
+          skipped: true,
+          version: reserved.version,
+          chunksCreated: 0,
+          fileName: args.fileName,
+        };
+      }
+      upload = { fileId: reserved.fileId, version: reserved.version };
+      
+      const chunks: DocumentChunk[] = await chunkDocument(args.content);
       console.log(`✂️  Split into ${chunks.length} chunks`);
       
       const totalChunks: number = chunks.length;
       const uploadedAt: string = new Date().toISOString();
       
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk: string = chunks[i];
-        
-        console.log(`🔢 Embedding chunk ${i + 1}/${totalChunks}...`);
-        const embeddingResult: number[] = await generateEmbedding(chunk);
+      const batchStarts: number[] = [];
+      for (let i = 0; i < totalChunks; i += EMBED_BATCH_SIZE) {
+        batchStarts.push(i);
+      }
+      
+      const embeddingModel: string = getEmbeddingProvider().model;
+      const startTime = Date.now();
+      let embeddedChunks = 0;
+      let cachedChunks = 0;
+      let embeddingRequests = 0;
+      
+      await mapWithConcurrency(batchStarts, EMBED_CONCURRENCY, async (start) => {
+        const batch: DocumentChunk[] = chunks.slice(start, start + EMBED_BATCH_SIZE);
+        const { embeddings, cacheHits, embedded } = await embedWithCache(ctx, userId, batch.map(embeddingText));
+        cachedChunks += cacheHits;
+        if (embedded > 0) {
+          embeddingRequests++;
+        }
         
-        await ctx.runMutation(api.documents.addDocument, {
-          text: chunk,
-          embedding: embeddingResult,
-          metadata: {
-            source: args.fileName,
-            fileName: args.fileName,
-            uploadedAt,
-            chunkIndex: i,
-            totalChunks,
-          },
+        await ctx.runMutation(internal.documents.addDocuments, {
+          userId,
+          fileId: reserved.fileId,
+          version: reserved.version,
+          embeddingModel,
+          chunks: batch.map((chunk, j) => ({
+            text: chunk.text,
+            embedding: embeddings[j],
+            metadata: {
+              source: args.fileName,
+              fileName: args.fileName,
+              uploadedAt,
+              chunkIndex: start + j,
+              totalChunks,
+              headingPath: chunk.headingPath,
+              sectionTitle: chunk.sectionTitle,
+              pageStart: chunk.pageStart,
+              pageEnd: chunk.pageEnd,
+              startTime: chunk.startTime,
+              endTime: chunk.endTime,
+              overlap: chunk.overlap,
+            },
+          })),
         });
-      }
+        
+        embeddedChunks += batch.length;
+        console.log(`🔢 Embedded ${embeddedChunks}/${totalChunks} chunks`);
+      });
+      
+      await ctx.runMutation(internal.files.finishUpload, {
+        fileId: reserved.fileId,
+        version: reserved.version,
+        contentHash: reserved.contentHash,
+        storageId,
+        contentType: "text/plain",
+        size: contentBlob.size,
+        uploadedAt,
+        totalChunks,
+      });
+      
+      const durationMs = Date.now() - startTime;
+      const chunksPerSecond = durationMs > 0
+        ? Math.round((totalChunks / durationMs) * 1000 * 100) / 100
+        : totalChunks;
+      
+      const cacheHitRate = totalChunks > 0 ? Math.round((cachedChunks / totalChunks) * 100) / 100 : 0;
       
-      console.log(`✅ Successfully embedded ${totalChunks} chunks`);
+      console.log(`✅ Successfully embedded ${totalChunks} chunks in ${durationMs}ms (${chunksPerSecond} chunks/s, ${cachedChunks} from cache)`);
       
       return {
         success: true,
+        skipped: false,
+        version: reserved.version,
         chunksCreated: totalChunks,
         fileName: args.fileName,
+        stats: {
+          durationMs,
+          chunksPerSecond,
+          embeddingRequests,
+          mutations: batchStarts.length,
+          cachedChunks,
+          cacheHitRate,
+        },
       };
     } catch (error) {
       console.error("Error embedding document:", error);
+      if (upload !== null) {
+        await ctx.runMutation(internal.files.discardVersion, upload);
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -171,33 +306,56 @@ export const embedDocument = action({
  * Perform RAG-based chat with document context
  * 
  * This action implements the complete RAG (Retrieval-Augmented Generation) workflow:
- * 1. Embeds the user's query using the same embedding model as documents
- * 2. Uses Convex's vector search to find the most similar document chunks
- * 3. Optionally filters by fileName if specified
- * 4. Retrieves the top 5 most similar chunks as context
- * 5. Generates an AI response using Gemini 2.5 Flash with the context
+ * 1. Searches the caller's chunks by meaning, by exact terms or both (see
+ *    documents.search), hybrid by default
+ * 2. Optionally filters by files or collection if specified
+ * 3. Over-fetches candidates and re-ranks them for relevance and diversity
+ *    (see reranking.ts), keeping the top 5 chunks
+ * 4. Expands each chunk with its neighbouring chunks into a passage (see
+ *    documents.expandNeighbors) and uses the passages as context
+ * 5. Generates an AI response with the "chat" task model using the context
+ * 
+ * Answers are cached (see answerCache.ts): a near-duplicate of a question
+ * asked in the same scope within the last day, with no file re-ingested,
+ * deleted or moved since, gets the stored answer without retrieval or a
+ * model call. The query embedding is cached as well.
  * 
  * The response is grounded in the actual document content, reducing hallucinations
  * and providing accurate, context-aware answers.
  * 
  * @param query - The user's question or prompt
  * @param fileName - Optional file name to limit search to specific document
+ * @param fileNames - Optional file names to limit search to; combined with
+ *   `fileName`, chunks of any of the files are used
+ * @param collectionId - Optional collection to limit search to its documents
+ * @param mode - Search mode: "vector", "keyword" or "hybrid" (default)
+ * @param expandNeighbors - Add the chunks around each hit to the context
+ *   (default: true)
  * 
  * @returns Promise resolving to:
  *   - success: true if chat succeeded, false otherwise
  *   - answer: AI-generated response based on document context
+ *   - cached: true if the answer came from the answer cache
  *   - sources: Array of source chunks used, each containing:
+ *     - fileId: ID of the source file, for the document viewer
  *     - fileName: Name of the source file
  *     - chunkIndex: Index of the chunk within the file
- *     - text: Preview of the chunk text (first 200 chars)
- *     - score: Similarity score (-1 to 1) indicating relevance
+ *     - section: Heading path of the chunk, e.g. "Chapter 3 > Safety Rules"
+ *     - pages: Page citation for paged documents, e.g. "p. 12–13"
+ *     - pageStart: First page of the chunk, for paged documents
+ *     - url: Link to the original file, opened at `pageStart` for PDFs
+ *     - timestamp: Position in the recording for transcripts, e.g. "12:34"
+ *     - startTime: Start of the chunk in seconds, for transcripts
+ *     - text: Preview of the passage text (first 200 chars)
+ *     - score: Relevance score of the search mode (cosine similarity for
+ *       vector search, fused rank score otherwise)
  *   - error: Error message (on failure)
  * 
  * @example
  * ```typescript
  * const result = await ctx.runAction(api.ragActions.ragChat, {
  *   query: "What are the gym opening hours?",
- *   fileName: "gym-policy.txt" // Optional: search only this file
+ *   fileNames: ["gym-policy.txt", "pool-rules.txt"] // Optional: search only these files
  * });
  * 
  * if (result.success) {
@@ -213,26 +371,51 @@ export const ragChat = action({
   args: {
     query: v.string(),
     fileName: v.optional(v.string()),
+    fileNames: v.optional(v.array(v.string())),
+    collectionId: v.optional(v.id("collections")),
+    mode: v.optional(searchMode),
+    expandNeighbors: v.optional(v.boolean()),
   },
   handler: async (ctx, args): Promise<{
     success: boolean;
     answer: string;
-    sources: Array<{
-      fileName: string;
-      chunkIndex: number;
-      text: string;
-      score: number;
-    }>;
+    cached?: boolean;
+    sources: RagSource[];
     error?: string;
   }> => {
     try {
+      const userId = await requireUserId(ctx);
       console.log(`🔍 Processing query: "${args.query}"`);
       
-      // 1. Use Convex vector search to find similar documents
-      const searchResults = await ctx.runAction(api.documents.vectorSearch, {
+      // 0. Serve near-duplicate questions asked in the same scope from the
+      // cache; the generation is read before retrieval so that an answer built
+      // while a file changes is not cached
+      const generation = await ctx.runQuery(internal.answerCache.getGeneration, { userId });
+      const scopeKey = answerScopeKey(userId, generation, {
+        fileNames:
+          args.fileNames || args.fileName
+            ? [...(args.fileNames ?? []), ...(args.fileName ? [args.fileName] : [])]
+            : undefined,
+        collectionId: args.collectionId,
+        mode: args.mode,
+        expandNeighbors: args.expandNeighbors,
+      });
+      const queryEmbedding = await embedQuery(ctx, userId, args.query);
+      const cached = await findCachedAnswer(ctx, scopeKey, queryEmbedding);
+      if (cached !== null) {
+        console.log("♻️  Answered from the answer cache");
+        return { success: true, cached: true, ...cached };
+      }
+      
+      // 1. Search the caller's chunks with the requested mode, over-fetching
+      // candidates for re-ranking
+      const searchResults = await ctx.runAction(api.documents.search, {
         query: args.query,
-        limit: 5,
+        limit: RERANK_CANDIDATES,
         fileName: args.fileName,
+        fileNames: args.fileNames,
+        collectionId: args.collectionId,
+        mode: args.mode,
       });
       
       if (searchResults.length === 0) {
@@ -243,40 +426,89 @@ export const ragChat = action({
         };
       }
       
-      console.log(`📚 Found ${searchResults.length} relevant chunks`);
+      console.log(`📚 Found ${searchResults.length} candidate chunks`);
       
-      // 3. Fetch the full document content for the results
-      const topDocs = await ctx.runQuery(internal.documents.fetchResults, {
+      // 2. Fetch the full document content for the candidates
+      const candidates = await ctx.runQuery(internal.documents.fetchResults, {
         ids: searchResults.map((result) => result._id),
+        userId,
+      });
+      const scores = new Map(searchResults.map((result) => [result._id, result._score]));
+      const vectors = await ctx.runQuery(internal.documents.fetchEmbeddings, {
+        ids: candidates.map((doc) => doc._id),
+        userId,
       });
+      const embeddings = new Map(vectors.map((vector) => [vector.documentId, vector.embedding]));
       
-      // 4. Build context from the retrieved documents
+      // 3. Re-rank so the top 5 cover distinct information instead of
+      // overlapping near-duplicates
+      const reranked = await rerank(
+        args.query,
+        candidates.map((doc) => ({ doc, score: scores.get(doc._id) ?? 0, embedding: embeddings.get(doc._id) })),
+        5
+      );
+      
+      // 4. Widen each chunk with its neighbours so passages don't stop mid-thought
+      const topDocs: Doc<"documents">[] =
+        args.expandNeighbors === false
+          ? reranked
+          : await ctx.runQuery(internal.documents.expandNeighbors, {
+              ids: reranked.map((doc) => doc._id),
+              userId,
+            });
+      
+      // 5. Build context from the retrieved documents
+      // Label each chunk with its file, section, pages and timestamp so the answer can cite them
       const context: string = topDocs
-        .map((doc, i) => `[${i + 1}] ${doc.text}`)
+        .map((doc, i) => `[${i + 1}] (${formatCitation(doc.metadata)}) ${doc.text}`)
         .join("\n\n");
       
-      // 5. Generate AI response using Gemini
-      const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-      
+      // 6. Generate AI response with the model configured for chat
       const prompt: string = buildRagChatPrompt(context, args.query);
       
-      console.log("💭 Generating answer with Gemini...");
-      const result = await model.generateContent(prompt);
-      const answer: string = result.response.text();
+      console.log("💭 Generating answer...");
+      const result = await getChatModel("chat").invoke([new HumanMessage(prompt)]);
+      const answer: string = result.text;
       
       console.log("✅ Answer generated");
       
-      return {
-        success: true,
-        answer,
-        sources: topDocs.map((doc, i) => ({
-          fileName: doc.metadata.fileName,
-          chunkIndex: doc.metadata.chunkIndex,
-          text: doc.text.substring(0, 200) + "...",
-          score: searchResults[i]._score,
-        })),
+      // Link every source to its original file, at the cited page for PDFs
+      const fileUrls = await ctx.runQuery(internal.files.getDownloadUrls, {
+        fileIds: [...new Set(topDocs.map((doc) => doc.fileId))],
+        userId,
+      });
+      const urls = new Map(fileUrls.map(({ fileId, url }) => [fileId, url]));
+      const sourceUrl = (doc: (typeof topDocs)[number]) => {
+        const url = urls.get(doc.fileId);
+        if (url === undefined) return undefined;
+        return doc.metadata.pageStart !== undefined ? `${url}#page=${doc.metadata.pageStart}` : url;
       };
+      
+      const sources: RagSource[] = topDocs.map((doc) => ({
+        fileId: doc.fileId,
+        fileName: doc.metadata.fileName,
+        chunkIndex: doc.metadata.chunkIndex,
+        section: formatHeadingPath(doc.metadata.headingPath),
+        pages: formatPageRange(doc.metadata.pageStart, doc.metadata.pageEnd),
+        pageStart: doc.metadata.pageStart,
+        url: sourceUrl(doc),
+        timestamp: doc.metadata.startTime !== undefined ? formatTimestamp(doc.metadata.startTime) : undefined,
+        startTime: doc.metadata.startTime,
+        text: doc.text.substring(0, 200) + "...",
+        score: scores.get(doc._id) ?? 0,
+      }));
+      
+      await ctx.runMutation(internal.answerCache.storeAnswer, {
+        userId,
+        generation,
+        scopeKey,
+        question: args.query,
+        embedding: queryEmbedding,
+        answer,
+        sources,
+      });
+      
+      return { success: true, answer, sources };
     } catch (error) {
       console.error("Error in RAG chat:", error);
       return {
@@ -292,17 +524,19 @@ export const ragChat = action({
 /**
  * Delete all chunks of a document from the database
  * 
- * Removes all embedded chunks associated with a specific file name.
- * This is useful for:
+ * Removes all embedded chunks associated with a specific file name, along
+ * with every stored version of the file. This is useful for:
  * - Removing outdated documents
- * - Cleaning up before re-uploading an updated version
  * - Managing storage and keeping the database clean
  * 
+ * Re-uploading an updated version does not require deleting first; the new
+ * version replaces the old one automatically.
+ * 
  * @param fileName - Name of the file to delete
  * 
  * @returns Promise resolving to:
  *   - success: true if deletion succeeded, false otherwise
- *   - deleted: Number of chunks deleted (on success)
+ *   - deleted: Number of chunks being deleted in the background (on success)
  *   - error: Error message (on failure)
  * 
  * @example
@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { Doc } from "./_generated/dataModel";
+import { setChatScript } from "./models";
+import { createCrossEncoderScorer, createLlmScorer, getRelevanceScorer, maximalMarginalRelevance, rerank } from "./reranking";
+
+afterEach(() => {
+  setChatScript("rerank", undefined);
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+// Answer every fetch with the given JSON body
+const stubRerankResponse = (body: unknown) => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body)));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+// Chunks only need text to be re-ranked; embeddings are passed alongside
+const chunk = (text: string) => ({ text }) as Doc<"documents">;
+
+const HELMET = chunk("Wear a helmet in the workshop.");
+const HELMET_OVERLAP = chunk("a helmet in the workshop. Also wear");
+const GOGGLES = chunk("Goggles are required near the lathe.");
+
+const EMBEDDINGS = new Map([
+  [HELMET, [1, 0, 0]],
+  [HELMET_OVERLAP, [0.99, 0.14, 0]],
+  [GOGGLES, [0.3, 0, 0.95]],
+]);
+const candidate = (doc: Doc<"documents">, score: number) => ({ doc, score, embedding: EMBEDDINGS.get(doc) });
+
+describe("maximalMarginalRelevance", () => {
+  test("skips near-duplicates of picked items", () => {
+    const items = [
+      { relevance: 1, embedding: EMBEDDINGS.get(HELMET)! },
+      { relevance: 0.98, embedding: EMBEDDINGS.get(HELMET_OVERLAP)! },
+      { relevance: 0.8, embedding: EMBEDDINGS.get(GOGGLES)! },
+    ];
+
+    expect(maximalMarginalRelevance(items, 2)).toEqual([0, 2]);
+    expect(maximalMarginalRelevance(items, 2, 1)).toEqual([0, 1]);
+  });
+});
+
+describe("rerank", () => {
+  test("keeps distinct chunks over overlapping ones", async () => {
+    const candidates = [
+      candidate(HELMET, 0.9),
+      candidate(HELMET_OVERLAP, 0.88),
+      candidate(GOGGLES, 0.7),
+    ];
+
+    expect(await rerank("safety gear", candidates, 2, null)).toEqual([HELMET, GOGGLES]);
+  });
+
+  test("uses the LLM scorer's relevance", async () => {
+    setChatScript("rerank", () => JSON.stringify({ scores: [2, 1, 10] }));
+    const candidates = [
+      candidate(HELMET, 0.9),
+      candidate(HELMET_OVERLAP, 0.88),
+      candidate(GOGGLES, 0.7),
+    ];
+
+    expect(await rerank("do I need goggles?", candidates, 1, createLlmScorer())).toEqual([GOGGLES]);
+  });
+
+  test("falls back to search scores when the scorer fails", async () => {
+    setChatScript("rerank", () => {
+      throw new Error("Model unavailable");
+    });
+    const candidates = [
+      candidate(GOGGLES, 0.9),
+      candidate(HELMET, 0.5),
+    ];
+
+    expect(await rerank("safety gear", candidates, 1, createLlmScorer())).toEqual([GOGGLES]);
+  });
+});
+
+describe("createCrossEncoderScorer", () => {
+  test("posts the query and texts and orders scores by index", async () => {
+    const fetchMock = stubRerankResponse([
+      { index: 1, score: 0.9 },
+      { index: 0, score: 0.2 },
+    ]);
+    const scorer = createCrossEncoderScorer("https://rerank.example/rerank", "secret");
+
+    expect(await scorer.score("safety gear", ["Helmet.", "Goggles."])).toEqual([0.2, 0.9]);
+    expect(fetchMock).toHaveBeenCalledWith("https://rerank.example/rerank", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer secret" },
+      body: JSON.stringify({ query: "safety gear", texts: ["Helmet.", "Goggles."] }),
+    });
+  });
+
+  test("rejects malformed responses", async () => {
+    const scorer = createCrossEncoderScorer("https://rerank.example/rerank");
+
+    for (const body of [
+      { results: [] },
+      [{ index: 2, score: 0.5 }],
+      [{ index: -1, score: 0.5 }],
+      [{ index: 0.5, score: 0.5 }],
+      [{ index: 0, score: "high" }],
+      [{ index: 0 }],
+    ]) {
+      stubRerankResponse(body);
+      await expect(scorer.score("safety gear", ["Helmet.", "Goggles."])).rejects.toThrow(/rerank response/i);
+    }
+  });
+
+  test("falls back to search scores when the response is malformed", async () => {
+    stubRerankResponse([{ index: 7, score: 1 }]);
+    const candidates = [
+      candidate(HELMET, 0.5),
+      candidate(GOGGLES, 0.9),
+    ];
+
+    const scorer = createCrossEncoderScorer("https://rerank.example/rerank");
+    expect(await rerank("safety gear", candidates, 1, scorer)).toEqual([GOGGLES]);
+  });
+});
+
+describe("getRelevanceScorer", () => {
+  test("is selected by RERANK_SCORER", () => {
+    expect(getRelevanceScorer()).toBeNull();
+
+    vi.stubEnv("RERANK_SCORER", "llm");
+    expect(getRelevanceScorer()?.name).toBe("llm");
+
+    vi.stubEnv("RERANK_SCORER", "cross-encoder");
+    expect(() => getRelevanceScorer()).toThrow("RERANK_URL must be set");
+
+    vi.stubEnv("RERANK_SCORER", "magic");
+    expect(() => getRelevanceScorer()).toThrow('Unknown RERANK_SCORER "magic"');
+  });
+});
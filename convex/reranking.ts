@@ -0,0 +1,269 @@
+/**
+ * Re-ranking Module
+ *
+ * Search returns the chunks closest to the query, which are often
+ * near-identical: neighbouring chunks share CHUNK_OVERLAP characters, and the
+ * same passage may appear in several files. Re-ranking runs on an
+ * over-fetched candidate list and picks the final chunks with maximal
+ * marginal relevance (MMR), trading relevance to the query against
+ * similarity to the chunks already picked, so the context covers more
+ * distinct information.
+ *
+ * Relevance comes from the search scores by default. An optional scorer can
+ * judge each candidate against the query instead:
+ *
+ * - `llm`: the "rerank" chat model task rates every candidate (see models.ts)
+ * - `cross-encoder`: a cross-encoder served behind a rerank endpoint that
+ *   accepts `{ query, texts }` and returns `[{ index, score }]`, such as
+ *   Hugging Face text-embeddings-inference
+ *
+ * Configuration (Convex environment variables):
+ * - RERANK_SCORER: "none" (default), "llm" or "cross-encoder"
+ * - RERANK_URL: Rerank endpoint of the cross-encoder
+ * - RERANK_API_KEY: Optional bearer token for the cross-encoder endpoint
+ *
+ * @module reranking
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import { Doc } from "./_generated/dataModel";
+import { getChatModel } from "./models";
+
+/**
+ * Number of search results considered by the re-ranker
+ */
+export const RERANK_CANDIDATES = 20;
+
+/**
+ * Weight of relevance versus diversity in MMR (1 = relevance only)
+ */
+export const MMR_LAMBDA = 0.7;
+
+/**
+ * Judges how relevant texts are to a query
+ */
+export interface RelevanceScorer {
+  readonly name: string;
+  /** Score each text from 0 (irrelevant) to 1 (highly relevant), in input order */
+  score(query: string, texts: string[]): Promise<number[]>;
+}
+
+const RelevanceScoresSchema = z.object({
+  scores: z.array(z.number().min(0).max(10)),
+});
+
+/**
+ * Create a scorer that asks the "rerank" chat model to rate every candidate
+ */
+export function createLlmScorer(): RelevanceScorer {
+  return {
+    name: "llm",
+    score: async (query, texts) => {
+      const passages = texts.map((text, i) => `[${i + 1}] ${text}`).join("\n\n");
+      const prompt = `Rate how relevant each passage is to the question, from 0 (irrelevant) to 10 (answers it directly).
+
+Question: "${query}"
+
+Passages:
+${passages}
+
+Return a JSON object with a "scores" array holding one score per passage, in order.`;
+
+      const response = await getChatModel("rerank")
+        .withStructuredOutput(RelevanceScoresSchema)
+        .invoke([new HumanMessage(prompt)]);
+      if (response.scores.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} relevance scores, got ${response.scores.length}`);
+      }
+      return response.scores.map((score) => score / 10);
+    },
+  };
+}
+
+// Zod numbers reject NaN and Infinity
+const CrossEncoderResultsSchema = z.array(
+  z.object({
+    index: z.number().int().min(0),
+    score: z.number(),
+  })
+);
+
+/**
+ * Create a scorer backed by a cross-encoder rerank endpoint
+ *
+ * @param url - Endpoint accepting `{ query, texts }` and returning
+ *   `[{ index, score }]` with scores between 0 and 1
+ * @param apiKey - Optional bearer token
+ *
+ * @throws Error from `score` if the request fails or the response is not a
+ *   list of finite scores for indexes of the given texts
+ */
+export function createCrossEncoderScorer(url: string, apiKey?: string): RelevanceScorer {
+  return {
+    name: "cross-encoder",
+    score: async (query, texts) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ query, texts }),
+      });
+      if (!response.ok) {
+        throw new Error(`Rerank request failed with status ${response.status}`);
+      }
+
+      const parsed = CrossEncoderResultsSchema.safeParse(await response.json());
+      if (!parsed.success) {
+        throw new Error(`Invalid rerank response: ${parsed.error.message}`);
+      }
+      const results = parsed.data;
+      if (results.some(({ index }) => index >= texts.length)) {
+        throw new Error(`Rerank response has an index outside of the ${texts.length} texts`);
+      }
+      const scores = new Array<number>(texts.length).fill(0);
+      for (const { index, score } of results) {
+        scores[index] = score;
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * Get the relevance scorer selected by RERANK_SCORER
+ *
+ * @returns The scorer, or null to rank by search scores
+ *
+ * @throws Error if RERANK_SCORER names an unknown scorer, or the
+ *   cross-encoder has no RERANK_URL
+ */
+export function getRelevanceScorer(): RelevanceScorer | null {
+  const name = process.env.RERANK_SCORER || "none";
+  switch (name) {
+    case "none":
+      return null;
+    case "llm":
+      return createLlmScorer();
+    case "cross-encoder": {
+      const url = process.env.RERANK_URL;
+      if (!url) {
+        throw new Error("RERANK_URL must be set for the cross-encoder scorer");
+      }
+      return createCrossEncoderScorer(url, process.env.RERANK_API_KEY);
+    }
+    default:
+      throw new Error(`Unknown RERANK_SCORER "${name}"`);
+  }
+}
+
+// Vectors of different lengths (or a missing one) count as unrelated
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Pick items by maximal marginal relevance
+ *
+ * Each step picks the item maximising
+ * `lambda * relevance - (1 - lambda) * (highest similarity to a picked item)`.
+ *
+ * @param items - Candidates with a relevance between 0 and 1 and an embedding
+ * @param limit - Number of items to pick
+ * @param lambda - Weight of relevance versus diversity (default: MMR_LAMBDA)
+ * @returns Indices of the picked items, in the order they were picked
+ */
+export function maximalMarginalRelevance(
+  items: Array<{ relevance: number; embedding: number[] }>,
+  limit: number,
+  lambda: number = MMR_LAMBDA
+): number[] {
+  const picked: number[] = [];
+  // Highest similarity of each item to any picked item so far
+  const redundancy = new Array<number>(items.length).fill(0);
+  const remaining = new Set(items.keys());
+
+  while (picked.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const i of remaining) {
+      const score = lambda * items[i].relevance - (1 - lambda) * redundancy[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    picked.push(best);
+    remaining.delete(best);
+    for (const i of remaining) {
+      redundancy[i] = Math.max(redundancy[i], cosineSimilarity(items[i].embedding, items[best].embedding));
+    }
+  }
+  return picked;
+}
+
+/**
+ * Re-rank search candidates for relevance and diversity
+ *
+ * Relevance is the configured scorer's judgement, or the search score
+ * relative to the best candidate. If the scorer fails, the search scores are
+ * used so a flaky scorer never breaks retrieval.
+ *
+ * @param query - The user's query
+ * @param candidates - Candidate chunks with their search scores, best first,
+ *   and their embeddings (see documents.fetchEmbeddings). A candidate without
+ *   an embedding is never considered redundant.
+ * @param limit - Number of chunks to keep
+ * @param scorer - Relevance scorer (default: the one selected by RERANK_SCORER)
+ * @returns The kept chunks in the order they were picked, which starts with
+ *   the most relevant one
+ *
+ * @example
+ * ```typescript
+ * const topDocs = await rerank(
+ *   query,
+ *   docs.map((doc) => ({ doc, score: scores.get(doc._id) ?? 0, embedding: embeddings.get(doc._id) })),
+ *   5
+ * );
+ * ```
+ */
+export async function rerank(
+  query: string,
+  candidates: Array<{ doc: Doc<"documents">; score: number; embedding?: number[] }>,
+  limit: number,
+  scorer: RelevanceScorer | null = getRelevanceScorer()
+): Promise<Doc<"documents">[]> {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const maxScore = Math.max(...candidates.map((candidate) => candidate.score));
+  let relevance = candidates.map((candidate) => (maxScore > 0 ? candidate.score / maxScore : 0));
+  if (scorer !== null) {
+    try {
+      relevance = await scorer.score(query, candidates.map((candidate) => candidate.doc.text));
+    } catch (error) {
+      console.error(`Re-ranking with the ${scorer.name} scorer failed, using search scores:`, error);
+    }
+  }
+
+  const picked = maximalMarginalRelevance(
+    candidates.map((candidate, i) => ({ relevance: relevance[i], embedding: candidate.embedding ?? [] })),
+    limit
+  );
+  return picked.map((i) => candidates[i].doc);
+}
@@ -1,7 +1,83 @@
 import { defineSchema, defineTable } from "convex/server";
-import { v } from "convex/values";
+import { v, Infer } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+// Dimensionality of every embedding provider's output, see embeddings.ts
+export const EMBEDDING_DIMENSIONS = 3072;
+
+// Dimensionality of the reduced vectors served by the `by_reduced_embedding`
+// index, see embeddingMigration.ts. Gemini and OpenAI embeddings keep most of
+// their quality when truncated to 768 dimensions and renormalized. Every
+// `reducedEmbedding` has to be cleared before a change is deployed, see
+// embeddingMigration.startMigration and "Reduced Embeddings" in RAG_SETUP.md
+export const REDUCED_EMBEDDING_DIMENSIONS = 768;
+
+// Progress of a switch to reduced embeddings, see embeddingMigration.ts
+export const embeddingMigrationStatus = v.union(
+  v.literal("backfilling"),
+  v.literal("complete"),
+);
+
+// Lifecycle of a server-side ingestion job, see ingestion.ts
+export const ingestionStatus = v.union(
+  v.literal("queued"),
+  v.literal("extracting"),
+  v.literal("chunking"),
+  v.literal("embedding"),
+  v.literal("done"),
+  v.literal("failed"),
+);
+
+// State of a file's latest upload shown in file listings, see files.ts
+export const fileStatus = v.union(
+  v.literal("processing"),
+  v.literal("ready"),
+  v.literal("failed"),
+  // chunks are being removed in the background, see files.deleteFile
+  v.literal("deleting"),
+);
+
+// Metadata stored with every chunk, see documents.ts and chunking.ts
+export const chunkMetadata = v.object({
+  source: v.string(),
+  fileName: v.string(),
+  uploadedAt: v.string(),
+  chunkIndex: v.number(),
+  totalChunks: v.number(),
+  // titles of the enclosing document headings, outermost first, and the
+  // innermost one; optional for chunks stored before structure-aware chunking
+  headingPath: v.optional(v.array(v.string())),
+  sectionTitle: v.optional(v.string()),
+  // first and last page the chunk spans, for paged documents such as PDFs
+  pageStart: v.optional(v.number()),
+  pageEnd: v.optional(v.number()),
+  // start and end of the recording the chunk covers in seconds, for transcripts
+  startTime: v.optional(v.number()),
+  endTime: v.optional(v.number()),
+  // leading characters repeated from the chunk before, see
+  // chunking.chunkDocument; optional for chunks stored before it was recorded
+  overlap: v.optional(v.number()),
+});
+
+// A source cited by a ragChat answer, as returned to the client and kept in
+// the answer cache, see ragActions.ts and answerCache.ts
+export const ragSource = v.object({
+  // file and chunk the source was taken from, for the document viewer;
+  // fileId is optional for answers cached before it was recorded
+  fileId: v.optional(v.id("files")),
+  fileName: v.string(),
+  chunkIndex: v.number(),
+  section: v.optional(v.string()),
+  pages: v.optional(v.string()),
+  pageStart: v.optional(v.number()),
+  url: v.optional(v.string()),
+  timestamp: v.optional(v.string()),
+  startTime: v.optional(v.number()),
+  text: v.string(),
+  score: v.number(),
+});
+export type RagSource = Infer<typeof ragSource>;
+
 // The schema is normally optional, but Convex Auth
 // requires indexes defined on `authTables`.
 // The schema provides more precise TypeScript types.
@@ -11,23 +87,224 @@ export default defineSchema({
     value: v.number(),
   }),
 
-  // define vector index for documents
+  // chunk text and metadata; the embedding vectors live in chunkEmbeddings so
+  // reading chunks never ships 3072 floats per row
   documents: defineTable({
+    userId: v.id("users"),
+    // file and version the chunk belongs to; search only serves chunks of
+    // the file's active version, see files.ts
+    fileId: v.id("files"),
+    version: v.number(),
+    // `${userId}:${fileName}` - vector filters only support equality on a
+    // single field, so owner + file scoping needs a combined key
+    userFileKey: v.string(),
+    // collection of the chunk's file, copied from `files.collectionId` so
+    // search can be scoped to a collection, see collections.ts
+    collectionId: v.optional(v.id("collections")),
     text: v.string(),
-    embedding: v.array(v.float64()),
-    metadata: v.object({
-      source: v.string(),
-      fileName: v.string(),
-      uploadedAt: v.string(),
-      chunkIndex: v.number(),
-      totalChunks: v.number(),
-    }),
+    // legacy: set only on chunks stored before vectors moved to
+    // chunkEmbeddings, until documents.migrateEmbeddings has moved them
+    embedding: v.optional(v.array(v.float64())),
+    embeddingModel: v.optional(v.string()),
+    metadata: chunkMetadata,
+  })
+    .searchIndex("search_text", {
+      searchField: "text",
+      filterFields: ["userId", "userFileKey", "collectionId"],
+    })
+    .index("by_userId", ["userId"])
+    .index("by_userFileKey", ["userFileKey"])
+    .index("by_fileId_version_chunkIndex", ["fileId", "version", "metadata.chunkIndex"])
+    .index("by_source", ["metadata.source"]),
+
+  // one embedding vector per chunk, only read by search and written by
+  // ingestion, see documents.ts
+  chunkEmbeddings: defineTable({
+    documentId: v.id("documents"),
+    // copies of the chunk's scope fields; vector filters can only use fields
+    // of the indexed table
+    userId: v.id("users"),
+    userFileKey: v.string(),
+    collectionId: v.optional(v.id("collections")),
+    // full provider vector; no longer stored once dropFullEmbeddings has
+    // run, see embeddingMigration.ts
+    embedding: v.optional(v.array(v.float64())),
+    // `embedding` truncated to REDUCED_EMBEDDING_DIMENSIONS and renormalized;
+    // set once the switch to reduced vectors has started
+    reducedEmbedding: v.optional(v.array(v.float64())),
+    // provider model id that produced `embedding`, e.g. "google/gemini-embedding-001";
+    // optional for chunks stored before providers were pluggable
+    embeddingModel: v.optional(v.string()),
   })
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 3072,
-      filterFields: ["metadata.fileName"],
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["userId", "userFileKey", "collectionId"],
     })
-    .index("by_fileName", ["metadata.fileName"])
-    .index("by_source", ["metadata.source"]),
+    .vectorIndex("by_reduced_embedding", {
+      vectorField: "reducedEmbedding",
+      dimensions: REDUCED_EMBEDDING_DIMENSIONS,
+      filterFields: ["userId", "userFileKey", "collectionId"],
+    })
+    .index("by_documentId", ["documentId"]),
+
+  // embedding vectors by content, so unchanged chunks of a re-upload are not
+  // embedded again, see embeddingCache.ts
+  embeddingCache: defineTable({
+    userId: v.id("users"),
+    // SHA-256 of the normalized text that was embedded
+    textHash: v.string(),
+    embeddingModel: v.string(),
+    embedding: v.array(v.float64()),
+    // pushed back whenever the entry is used; evicted once passed, see
+    // embeddingCache.evictStale
+    expiresAt: v.number(),
+  })
+    .index("by_userId_textHash_embeddingModel", ["userId", "textHash", "embeddingModel"])
+    .index("by_expiresAt", ["expiresAt"])
+    .index("by_embeddingModel", ["embeddingModel"]),
+
+  // switches of chunkEmbeddings to reduced vectors, one per dimensionality;
+  // search uses `by_reduced_embedding` once the one matching
+  // REDUCED_EMBEDDING_DIMENSIONS is complete
+  embeddingMigrations: defineTable({
+    dimensions: v.number(),
+    status: embeddingMigrationStatus,
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+    // chunks given a reduced vector by truncating their stored vector, and
+    // chunks that had to be embedded again from their text
+    truncatedChunks: v.number(),
+    reembeddedChunks: v.number(),
+    // set by dropFullEmbeddings: chunks only keep their reduced vector, so
+    // the full index no longer covers every chunk until restoreFullEmbeddings
+    fullEmbeddingsDropped: v.optional(v.boolean()),
+  }).index("by_dimensions", ["dimensions"]),
+
+  // generated ragChat answers, served again for near-duplicate questions in
+  // the same scope until they expire, see answerCache.ts
+  answerCache: defineTable({
+    userId: v.id("users"),
+    // user, files, collection and retrieval options, see answerCache.answerScopeKey
+    scopeKey: v.string(),
+    question: v.string(),
+    embedding: v.array(v.float64()),
+    answer: v.string(),
+    sources: v.array(ragSource),
+    expiresAt: v.number(),
+  })
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["scopeKey"],
+    }),
+
+  // number of times each user's cached answers were invalidated, part of
+  // every answer's scope key, see answerCache.invalidateAnswers
+  answerCacheGenerations: defineTable({
+    userId: v.id("users"),
+    generation: v.number(),
+  }).index("by_userId", ["userId"]),
+
+  // one row per user + file name; versions are numbered per file
+  files: defineTable({
+    userId: v.id("users"),
+    fileName: v.string(),
+    // version whose chunks are served by search; unset until the first
+    // version has been fully ingested
+    activeVersion: v.optional(v.number()),
+    // highest version number handed out so far, including failed uploads
+    latestVersion: v.number(),
+    // collection the file is assigned to, if any
+    collectionId: v.optional(v.id("collections")),
+    // listing summary kept in sync by ingestion, see files.refreshFileSummary:
+    // status and time of the latest upload, and chunk count, size and content
+    // type of the active version (of the first upload while there is none);
+    // unset on files created before it existed until files.backfillSummaries
+    // has run
+    status: v.optional(fileStatus),
+    totalChunks: v.optional(v.number()),
+    size: v.optional(v.number()),
+    contentType: v.optional(v.string()),
+    uploadedAt: v.optional(v.string()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_fileName", ["userId", "fileName"])
+    .index("by_userId_uploadedAt", ["userId", "uploadedAt"])
+    .index("by_userId_size", ["userId", "size"])
+    .index("by_userId_totalChunks", ["userId", "totalChunks"])
+    .index("by_collectionId", ["collectionId"])
+    // the sort indexes again, for listing one collection's files
+    .index("by_userId_collectionId_fileName", ["userId", "collectionId", "fileName"])
+    .index("by_userId_collectionId_uploadedAt", ["userId", "collectionId", "uploadedAt"])
+    .index("by_userId_collectionId_size", ["userId", "collectionId", "size"])
+    .index("by_userId_collectionId_totalChunks", ["userId", "collectionId", "totalChunks"])
+    .searchIndex("search_fileName", {
+      searchField: "fileName",
+      filterFields: ["userId", "collectionId"],
+    }),
+
+  // named groups of files, e.g. "Onboarding" or "Course 101", that search
+  // can be scoped to
+  collections: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_name", ["userId", "name"]),
+
+  // every successfully ingested version of a file, kept for rollback
+  fileVersions: defineTable({
+    fileId: v.id("files"),
+    version: v.number(),
+    // SHA-256 of the raw upload as reported by Convex file storage
+    contentHash: v.string(),
+    storageId: v.id("_storage"),
+    contentType: v.string(),
+    size: v.number(),
+    uploadedAt: v.string(),
+    totalChunks: v.number(),
+    // version whose upload was re-ingested to create this one, for rollbacks
+    restoredFrom: v.optional(v.number()),
+  }).index("by_fileId_version", ["fileId", "version"]),
+
+  // versions reserved by embedDocument whose upload has not finished; removed
+  // when the version is activated or rolled back, see files.beginUpload
+  pendingUploads: defineTable({
+    fileId: v.id("files"),
+    version: v.number(),
+    // the document text stored by embedDocument
+    storageId: v.id("_storage"),
+  }).index("by_fileId_version", ["fileId", "version"]),
+
+  // uploaded files waiting for or going through extraction/chunking/embedding
+  ingestionJobs: defineTable({
+    userId: v.id("users"),
+    fileName: v.string(),
+    // file and version number reserved for this upload
+    fileId: v.id("files"),
+    version: v.number(),
+    contentHash: v.string(),
+    restoredFrom: v.optional(v.number()),
+    contentType: v.string(),
+    size: v.number(),
+    storageId: v.id("_storage"),
+    status: ingestionStatus,
+    error: v.optional(v.string()),
+    uploadedAt: v.string(),
+    // intermediate results, removed once the job is done
+    textStorageId: v.optional(v.id("_storage")),
+    chunksStorageId: v.optional(v.id("_storage")),
+    totalChunks: v.optional(v.number()),
+    // index of the next chunk to embed, so a batch can resume; also the
+    // number of chunks embedded so far, for progress reporting
+    nextChunk: v.number(),
+    // when the current embedding run started and at which chunk, for the ETA
+    embeddingStartedAt: v.optional(v.number()),
+    embeddingStartChunk: v.optional(v.number()),
+    // number of stored chunks whose vector came from the embedding cache
+    cachedChunks: v.optional(v.number()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_fileId", ["fileId"]),
 });
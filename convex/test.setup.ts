@@ -0,0 +1,21 @@
+/// <reference types="vite/client" />
+
+import { TestConvex } from "convex-test";
+import schema from "./schema";
+
+// Every Convex function module, for convexTest(schema, modules)
+export const modules = import.meta.glob([
+  "./**/*.*s",
+  "!./**/*.test.ts",
+  "!./test.setup.ts",
+]);
+
+/**
+ * Create a user and a test client authenticated as that user
+ *
+ * Convex Auth derives the user ID from the first part of the JWT subject.
+ */
+export async function signInNewUser(t: TestConvex<typeof schema>) {
+  const userId = await t.run(async (ctx) => ctx.db.insert("users", {}));
+  return { userId, asUser: t.withIdentity({ subject: `${userId}|test-session` }) };
+}
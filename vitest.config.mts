@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // convex-test mocks the Convex runtime, which is closest to edge-runtime
+    environment: "edge-runtime",
+    server: { deps: { inline: ["convex-test"] } },
+    // Offline providers: no API keys and no network needed
+    env: {
+      EMBEDDING_PROVIDER: "hashing",
+      CHAT_PROVIDER: "fake",
+    },
+  },
+});